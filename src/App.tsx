@@ -5,32 +5,114 @@ import HardwareSelector from './components/HardwareSelector';
 import ModelSelector from './components/ModelSelector';
 import ResultsDashboard from './components/ResultsDashboard';
 import ModelComparisonTable from './components/ModelComparisonTable';
-import type { ModelConfig, HardwareConfig, QuantizationType, GPUInfo } from './types';
-import { calculateCompatibility } from './utils/calculationEngine';
+import ServingPanel from './components/ServingPanel';
+import EnergyPanel from './components/EnergyPanel';
+import CloudCostPanel from './components/CloudCostPanel';
+import SpeculativePanel from './components/SpeculativePanel';
+import TrainingPanel from './components/TrainingPanel';
+import OptimizerPanel from './components/OptimizerPanel';
+import HardwareRecommenderPanel from './components/HardwareRecommenderPanel';
+import BenchmarkPanel from './components/BenchmarkPanel';
+import type { ModelConfig, HardwareConfig, QuantizationType, QuantizationParams, GPUInfo, InferenceRuntime, KVCacheConfig, ComputeBufferConfig, ServingConfig, SpeculativeConfig, TrainingConfig, MediaConfig, MoEOffloadMode, OptimizedConfig, CalculationOptions, BenchmarkMeasurement, EnergyConfig, PriceOverrides } from './types';
+import { calculateCompatibility, DEFAULT_KV_CACHE, DEFAULT_COMPUTE_BUFFER } from './utils/calculationEngine';
+import { findContextLimits } from './utils/contextSolver';
+import { fitCalibrations } from './utils/calibration';
+import { estimateEnergy, DEFAULT_ENERGY } from './utils/energy';
 import { POPULAR_MODELS } from './data/popularModels';
-import { fetchGPUs } from './services/gpuService';
+import { fetchGPUs, loadCustomApplePresets, saveCustomApplePresets } from './services/gpuService';
+import { loadMeasurements, saveMeasurements } from './services/benchmarkService';
+import { loadPriceOverrides, savePriceOverrides } from './services/pricingService';
 
 function App() {
   // ── Data state ──
   const [gpus, setGpus] = useState<GPUInfo[]>([]);
   const [gpuLoading, setGpuLoading] = useState(true);
+  const [customMacs, setCustomMacs] = useState<GPUInfo[]>(loadCustomApplePresets);
+  const [measurements, setMeasurements] = useState<BenchmarkMeasurement[]>(loadMeasurements);
+  const [priceOverrides, setPriceOverrides] = useState<PriceOverrides>(loadPriceOverrides);
 
   // ── User selections ──
   const [hardware, setHardware] = useState<HardwareConfig>({
-    gpu: null,
-    gpuCount: 1,
+    gpus: [],
+    splitMode: 'layer',
     systemRAM: 16,
     isAppleSilicon: false,
   });
   const [selectedModel, setSelectedModel] = useState<ModelConfig | null>(null);
   const [quantization, setQuantization] = useState<QuantizationType>('Q4_K_M');
+  const [quantParams, setQuantParams] = useState<QuantizationParams>({});
+  const [runtime, setRuntime] = useState<InferenceRuntime>('llama.cpp');
+  const [kvCache, setKVCache] = useState<KVCacheConfig>(DEFAULT_KV_CACHE);
+  const [computeBuffer, setComputeBuffer] = useState<ComputeBufferConfig>(DEFAULT_COMPUTE_BUFFER);
+  const [moeOffload, setMoEOffload] = useState<MoEOffloadMode>('layers');
+  const [serving, setServing] = useState<ServingConfig | null>(null);
+  const [speculative, setSpeculative] = useState<SpeculativeConfig | null>(null);
+  const [training, setTraining] = useState<TrainingConfig | null>(null);
   const [contextLength, setContextLength] = useState(4096);
+  const [promptTokens, setPromptTokens] = useState(2048);
+  const [media, setMedia] = useState<MediaConfig>({ images: 0, audioClips: 0 });
+  const [energy, setEnergy] = useState<EnergyConfig>(DEFAULT_ENERGY);
 
   // ── Derived ──
+  const gpuOptions = useMemo(() => [...gpus, ...customMacs], [gpus, customMacs]);
+  const calibrations = useMemo(() => fitCalibrations(measurements), [measurements]);
+
+  // Everything except the quantization / context / offload choices the optimizer searches over
+  const searchOptions = useMemo<CalculationOptions>(() => ({
+    runtime,
+    kvCache,
+    computeBuffer,
+    serving: serving ?? undefined,
+    promptTokens,
+    speculative: speculative ?? undefined,
+    media,
+    calibrations,
+  }), [runtime, kvCache, computeBuffer, serving, promptTokens, speculative, media, calibrations]);
+
+  const calculationOptions = useMemo<CalculationOptions>(
+    () => ({ ...searchOptions, moeOffload, quantParams }),
+    [searchOptions, moeOffload, quantParams]
+  );
+
   const result = useMemo(() => {
-    if (!selectedModel || !hardware.gpu) return null;
-    return calculateCompatibility(selectedModel, hardware, quantization, contextLength);
-  }, [selectedModel, hardware, quantization, contextLength]);
+    if (!selectedModel || hardware.gpus.length === 0) return null;
+    return calculateCompatibility(selectedModel, hardware, quantization, contextLength, {
+      ...calculationOptions,
+      training: training ?? undefined,
+    });
+  }, [selectedModel, hardware, quantization, contextLength, calculationOptions, training]);
+
+  const energyResult = useMemo(
+    () => (result ? estimateEnergy(result, hardware, energy) : null),
+    [result, hardware, energy]
+  );
+
+  const contextLimits = useMemo(() => {
+    if (!selectedModel || hardware.gpus.length === 0) return null;
+    return findContextLimits(selectedModel, hardware, quantization, calculationOptions);
+  }, [selectedModel, hardware, quantization, calculationOptions]);
+
+  const applyOptimizedConfig = (config: OptimizedConfig) => {
+    setQuantization(config.quantization);
+    setQuantParams(config.quantParams);
+    setContextLength(config.contextLength);
+    setMoEOffload(config.moeOffload);
+  };
+
+  const updateMeasurements = (list: BenchmarkMeasurement[]) => {
+    setMeasurements(list);
+    saveMeasurements(list);
+  };
+
+  const updateCustomMacs = (presets: GPUInfo[]) => {
+    setCustomMacs(presets);
+    saveCustomApplePresets(presets);
+  };
+
+  const updatePriceOverrides = (overrides: PriceOverrides) => {
+    setPriceOverrides(overrides);
+    savePriceOverrides(overrides);
+  };
 
   // ── Load data on mount ──
   useEffect(() => {
@@ -59,36 +141,146 @@ function App() {
       <main id="main-content" className="main-content" role="main">
         <div className="config-panels">
           <HardwareSelector
-            gpus={gpus}
+            gpus={gpuOptions}
             gpuLoading={gpuLoading}
             hardware={hardware}
+            customMacs={customMacs}
             onHardwareChange={setHardware}
+            onCustomMacsChange={updateCustomMacs}
           />
           <ModelSelector
             popularModels={POPULAR_MODELS}
             selectedModel={selectedModel}
+            gpus={hardware.gpus.map((d) => d.gpu)}
             quantization={quantization}
+            quantParams={quantParams}
+            runtime={runtime}
+            kvCache={kvCache}
+            computeBuffer={computeBuffer}
+            moeOffload={moeOffload}
             contextLength={contextLength}
+            contextLimits={contextLimits}
+            promptTokens={promptTokens}
+            media={media}
             onModelSelect={setSelectedModel}
             onQuantizationChange={setQuantization}
+            onQuantParamsChange={setQuantParams}
+            onRuntimeChange={setRuntime}
+            onKVCacheChange={setKVCache}
+            onComputeBufferChange={setComputeBuffer}
+            onMoEOffloadChange={setMoEOffload}
             onContextLengthChange={setContextLength}
+            onPromptTokensChange={setPromptTokens}
+            onMediaChange={setMedia}
           />
         </div>
 
         <AnimatePresence mode="wait">
           {result && selectedModel && (
             <ResultsDashboard
-              key={`${selectedModel.id}-${quantization}-${contextLength}`}
+              key={`${selectedModel.id}-${quantization}-${runtime}-${kvCache.typeK}-${kvCache.typeV}-${moeOffload}-${contextLength}`}
               result={result}
               modelName={selectedModel.name}
             />
           )}
         </AnimatePresence>
 
+        {result && (
+          <ServingPanel
+            serving={serving}
+            result={result.serving}
+            onServingChange={setServing}
+          />
+        )}
+
+        {result && energyResult && (
+          <EnergyPanel
+            energy={energy}
+            result={energyResult}
+            isServing={!!result.serving}
+            onEnergyChange={setEnergy}
+          />
+        )}
+
+        {result && energyResult && selectedModel && (
+          <CloudCostPanel
+            model={selectedModel}
+            hardware={hardware}
+            quantization={quantization}
+            contextLength={contextLength}
+            options={calculationOptions}
+            result={result}
+            energy={energyResult}
+            overrides={priceOverrides}
+            onOverridesChange={updatePriceOverrides}
+          />
+        )}
+
+        {result && selectedModel && (
+          <SpeculativePanel
+            targetModel={selectedModel}
+            popularModels={POPULAR_MODELS}
+            speculative={speculative}
+            result={result.speculative}
+            onSpeculativeChange={setSpeculative}
+          />
+        )}
+
+        {result && (
+          <TrainingPanel
+            training={training}
+            result={result.training}
+            onTrainingChange={setTraining}
+          />
+        )}
+
+        {result && selectedModel && (
+          <OptimizerPanel
+            model={selectedModel}
+            hardware={hardware}
+            options={searchOptions}
+            quantization={quantization}
+            quantParams={quantParams}
+            contextLength={contextLength}
+            moeOffload={moeOffload}
+            onApply={applyOptimizedConfig}
+          />
+        )}
+
+        {selectedModel && (
+          <HardwareRecommenderPanel
+            model={selectedModel}
+            gpus={gpuOptions}
+            hardware={hardware}
+            quantization={quantization}
+            contextLength={contextLength}
+            options={calculationOptions}
+            onHardwareChange={setHardware}
+          />
+        )}
+
+        {result && selectedModel && (
+          <BenchmarkPanel
+            model={selectedModel}
+            gpus={gpuOptions}
+            selectedGPU={hardware.gpus.length === 1 ? hardware.gpus[0].gpu : null}
+            quantLabel={quantization}
+            result={result}
+            measurements={measurements}
+            calibrations={calibrations}
+            onMeasurementsChange={updateMeasurements}
+          />
+        )}
+
         <ModelComparisonTable
           models={POPULAR_MODELS}
           hardware={hardware}
           quantization={quantization}
+          quantParams={quantParams}
+          runtime={runtime}
+          kvCache={kvCache}
+          computeBuffer={computeBuffer}
+          media={media}
           onModelSelect={setSelectedModel}
         />
       </main>
@@ -0,0 +1,250 @@
+import { useMemo, useState } from 'react';
+import { motion } from 'framer-motion';
+import { FlaskConical, Upload, X } from 'lucide-react';
+import type { BenchmarkMeasurement, CalculationResult, GPUInfo, ModelConfig, SpeedCalibration } from '../types';
+import { countReportedDevices, detectBenchmarkSource, parseBenchmarkOutput } from '../services/benchmarkService';
+import { estimateMeasurement, fitCalibrations } from '../utils/calibration';
+
+interface BenchmarkPanelProps {
+    model: ModelConfig;
+    gpus: GPUInfo[];
+    selectedGPU: GPUInfo | null; // null when the rig has several GPUs
+    quantLabel: string;
+    result: CalculationResult;
+    measurements: BenchmarkMeasurement[];
+    calibrations: SpeedCalibration[];
+    onMeasurementsChange: (measurements: BenchmarkMeasurement[]) => void;
+}
+
+interface ComparisonRow {
+    measurement: BenchmarkMeasurement;
+    test: 'Prompt' | 'Generation';
+    measured: number;
+    rule: number;
+    calibrated: number;
+    heldOut: number; // calibrated on every other run, so this one can't fit itself
+}
+
+function formatRate(tokensPerSec: number): string {
+    return tokensPerSec >= 100 ? Math.round(tokensPerSec).toLocaleString() : tokensPerSec.toFixed(1);
+}
+
+function relativeError(estimate: number, measured: number): number {
+    return (estimate - measured) / measured;
+}
+
+function formatError(error: number): string {
+    return `${error > 0 ? '+' : ''}${Math.round(error * 100)}%`;
+}
+
+function meanAbsoluteError(rows: ComparisonRow[], pick: (row: ComparisonRow) => number): number {
+    return rows.reduce((sum, row) => sum + Math.abs(relativeError(pick(row), row.measured)), 0) / rows.length;
+}
+
+export default function BenchmarkPanel({
+    model,
+    gpus,
+    selectedGPU,
+    quantLabel,
+    result,
+    measurements,
+    calibrations,
+    onMeasurementsChange,
+}: BenchmarkPanelProps) {
+    const [pasted, setPasted] = useState('');
+    const [error, setError] = useState<string | null>(null);
+
+    const importOutput = (text: string) => {
+        const parsed = parseBenchmarkOutput(text, {
+            gpus,
+            fallbackGPU: selectedGPU,
+            model,
+            quantLabel,
+            weightsGB: result.modelMemoryGB,
+            gpuLayerShare: result.layersOnGPU / result.totalLayers,
+        });
+        if (parsed.length === 0) {
+            const source = detectBenchmarkSource(text);
+            if (source === 'ollama' && !selectedGPU) {
+                setError('Ollama timings name no GPU. Select a single GPU to record them.');
+            } else if (source === 'llama-bench' && countReportedDevices(text) > 1) {
+                setError('This run used several GPUs, so it cannot calibrate any one of them. Benchmark each GPU alone.');
+            } else if (source === 'llama-bench' && !selectedGPU) {
+                setError('The log names no GPU. Paste the device lines llama-bench prints, or select a single GPU.');
+            } else {
+                setError('No llama-bench table or ollama --verbose timings found.');
+            }
+            return;
+        }
+        setError(null);
+        setPasted('');
+        onMeasurementsChange([...measurements, ...parsed]);
+    };
+
+    const handleFile = async (file: File | undefined) => {
+        if (!file) return;
+        try {
+            importOutput(await file.text());
+        } catch {
+            setError(`Could not read ${file.name}.`);
+        }
+    };
+
+    const rows: ComparisonRow[] = useMemo(() => measurements.flatMap((m) => {
+        const rule = estimateMeasurement(m);
+        const calibrated = estimateMeasurement(m, calibrations);
+        const heldOut = estimateMeasurement(m, fitCalibrations(measurements.filter((other) => other.id !== m.id)));
+        const tests: ComparisonRow[] = [];
+        if (m.promptTokensPerSec) {
+            tests.push({
+                measurement: m, test: 'Prompt', measured: m.promptTokensPerSec,
+                rule: rule.promptTokensPerSec, calibrated: calibrated.promptTokensPerSec, heldOut: heldOut.promptTokensPerSec,
+            });
+        }
+        if (m.genTokensPerSec) {
+            tests.push({
+                measurement: m, test: 'Generation', measured: m.genTokensPerSec,
+                rule: rule.genTokensPerSec, calibrated: calibrated.genTokensPerSec, heldOut: heldOut.genTokensPerSec,
+            });
+        }
+        return tests;
+    }), [measurements, calibrations]);
+
+    return (
+        <motion.section
+            className="card benchmark-panel"
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: 0.3 }}
+            aria-labelledby="benchmark-heading"
+        >
+            <div className="card-header">
+                <FlaskConical size={20} aria-hidden="true" />
+                <h2 id="benchmark-heading">Benchmark Calibration</h2>
+            </div>
+
+            <p className="serving-hint">
+                Paste <code>llama-bench</code> output or the timings <code>ollama run --verbose</code> prints.
+                {selectedGPU
+                    ? <>Ollama runs are recorded as {model.name} {quantLabel} on {selectedGPU.name}.</>
+                    : <>Ollama runs can only be recorded with a single GPU selected.</>}
+            </p>
+
+            <div className="form-group">
+                <label htmlFor="benchmark-output" className="sr-only">Benchmark output</label>
+                <textarea
+                    id="benchmark-output"
+                    className="input-field benchmark-input"
+                    rows={6}
+                    placeholder="| model | size | params | backend | ngl | test | t/s |"
+                    value={pasted}
+                    onChange={(e) => setPasted(e.target.value)}
+                />
+            </div>
+
+            <div className="benchmark-actions">
+                <button className="context-btn" onClick={() => importOutput(pasted)} disabled={!pasted.trim()}>
+                    Import
+                </button>
+                <label className="context-btn benchmark-upload">
+                    <Upload size={14} aria-hidden="true" /> Upload file
+                    <input
+                        type="file"
+                        accept=".txt,.log,.md"
+                        className="sr-only"
+                        onChange={(e) => {
+                            handleFile(e.target.files?.[0]);
+                            e.target.value = '';
+                        }}
+                    />
+                </label>
+                {measurements.length > 0 && (
+                    <button className="context-btn" onClick={() => onMeasurementsChange([])}>
+                        Clear all
+                    </button>
+                )}
+            </div>
+
+            {error && <p className="serving-hint" role="alert">{error}</p>}
+
+            {calibrations.length > 0 && (
+                <ul className="calibration-list" aria-label="Fitted speed coefficients">
+                    {calibrations.map((c) => (
+                        <li key={`${c.scope}-${c.key}`} className="calibration-item">
+                            <span className="table-model-name">{c.scope === 'vendor' ? `All ${c.key.toUpperCase()}` : c.key}</span>
+                            <span className="table-model-org">
+                                {[
+                                    c.decodeEfficiency && `${Math.round(c.decodeEfficiency * 100)}% of bandwidth`,
+                                    c.prefillMFU && `${Math.round(c.prefillMFU * 100)}% MFU`,
+                                    c.cpuSlowdown && `CPU ${c.cpuSlowdown.toFixed(1)}× slower`,
+                                    `${c.samples} run${c.samples === 1 ? '' : 's'}`,
+                                ].filter(Boolean).join(' · ')}
+                            </span>
+                        </li>
+                    ))}
+                </ul>
+            )}
+
+            {rows.length > 0 && (
+                <>
+                    <div className="table-scroll" tabIndex={0} role="region" aria-label="Estimated vs measured speed">
+                        <table aria-label="Estimated vs measured tokens per second">
+                            <thead>
+                                <tr>
+                                    <th scope="col">Model</th>
+                                    <th scope="col">GPU</th>
+                                    <th scope="col">Test</th>
+                                    <th scope="col">Measured</th>
+                                    <th scope="col">Default Rule</th>
+                                    <th scope="col">Calibrated (in-sample)</th>
+                                    <th scope="col"><span className="sr-only">Remove</span></th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {rows.map((row) => {
+                                    const m = row.measurement;
+                                    const calibratedError = relativeError(row.calibrated, row.measured);
+                                    return (
+                                        <tr key={`${m.id}-${row.test}`} className="table-row">
+                                            <td>
+                                                <div className="table-model-name">{m.modelName}</div>
+                                                <span className="table-model-org">
+                                                    {m.quantLabel}{m.gpuLayerShare < 1 ? ` · ${Math.round(m.gpuLayerShare * 100)}% on GPU` : ''}
+                                                </span>
+                                            </td>
+                                            <td className="table-params">{m.gpu.name}</td>
+                                            <td className="table-params">{row.test}</td>
+                                            <td className="table-vram">{formatRate(row.measured)} tok/s</td>
+                                            <td className="table-params">
+                                                {formatRate(row.rule)}
+                                                <span className="table-model-org"> ({formatError(relativeError(row.rule, row.measured))})</span>
+                                            </td>
+                                            <td className="table-params">
+                                                {formatRate(row.calibrated)}
+                                                <span className="table-model-org"> ({formatError(calibratedError)})</span>
+                                            </td>
+                                            <td>
+                                                <button
+                                                    className="context-btn"
+                                                    onClick={() => onMeasurementsChange(measurements.filter((other) => other.id !== m.id))}
+                                                    aria-label={`Remove ${m.modelName} on ${m.gpu.name}`}
+                                                >
+                                                    <X size={14} aria-hidden="true" />
+                                                </button>
+                                            </td>
+                                        </tr>
+                                    );
+                                })}
+                            </tbody>
+                        </table>
+                    </div>
+                    <p className="serving-hint">
+                        Average error: {Math.round(meanAbsoluteError(rows, (r) => r.rule) * 100)}% with the default rule,
+                        {' '}{Math.round(meanAbsoluteError(rows, (r) => r.heldOut) * 100)}% calibrated on the other runs
+                        {' '}({Math.round(meanAbsoluteError(rows, (r) => r.calibrated) * 100)}% in-sample fit, which includes each run itself).
+                    </p>
+                </>
+            )}
+        </motion.section>
+    );
+}
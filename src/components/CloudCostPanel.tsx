@@ -0,0 +1,218 @@
+import { useMemo, useState } from 'react';
+import { motion } from 'framer-motion';
+import { Cloud, Server, House, Scale } from 'lucide-react';
+import type { CalculationOptions, CalculationResult, EnergyResult, HardwareConfig, ModelConfig, OwnershipConfig, PriceOverrides, QuantizationType } from '../types';
+import { CLOUD_INSTANCES } from '../data/cloudPricing';
+import { DEFAULT_OWNERSHIP, cloudInstanceName, compareCosts, findCloudOptions, getHourlyPrice, getPurchasePrice } from '../utils/cloudCost';
+
+interface CloudCostPanelProps {
+    model: ModelConfig;
+    hardware: HardwareConfig;
+    quantization: QuantizationType;
+    contextLength: number;
+    options: CalculationOptions;
+    result: CalculationResult;
+    energy: EnergyResult;
+    overrides: PriceOverrides;
+    onOverridesChange: (overrides: PriceOverrides) => void;
+}
+
+const OWNERSHIP_FIELDS: { key: keyof OwnershipConfig; label: string; min: number; max: number }[] = [
+    { key: 'amortizationYears', label: 'Amortize over (years)', min: 0.5, max: 10 },
+    { key: 'hoursPerDay', label: 'Generation per day (hours)', min: 0.1, max: 24 },
+];
+
+function formatUSD(value: number): string {
+    return `$${value >= 100 ? Math.round(value).toLocaleString() : value.toFixed(2)}`;
+}
+
+export default function CloudCostPanel({
+    model,
+    hardware,
+    quantization,
+    contextLength,
+    options,
+    result,
+    energy,
+    overrides,
+    onOverridesChange,
+}: CloudCostPanelProps) {
+    const [ownership, setOwnership] = useState<OwnershipConfig>(DEFAULT_OWNERSHIP);
+
+    const { splitMode } = hardware;
+    const cloudOptions = useMemo(
+        () => findCloudOptions(model, quantization, contextLength, splitMode, options, overrides),
+        [model, quantization, contextLength, splitMode, options, overrides]
+    );
+    const comparison = compareCosts(cloudOptions, hardware, result, energy, ownership, overrides);
+    const cheapest = comparison.cloudOptions[0];
+    const localGPUs = [...new Map(hardware.gpus.map((d) => [d.gpu.name, d.gpu])).values()];
+    const hasOverrides = Object.keys(overrides.cloudHourly).length > 0 || Object.keys(overrides.purchase).length > 0;
+
+    // A cleared field drops the override and falls back to the bundled price
+    const setPrice = (table: keyof PriceOverrides, key: string, value: string) => {
+        const prices = { ...overrides[table] };
+        if (value.trim() === '') {
+            delete prices[key];
+        } else {
+            const price = parseFloat(value);
+            if (!(price >= 0)) return;
+            prices[key] = price;
+        }
+        onOverridesChange({ ...overrides, [table]: prices });
+    };
+    const unpriced = comparison.unpricedGPUs.join(', ');
+    const runsLocally = comparison.localElectricityPerMillion !== null;
+
+    return (
+        <motion.section
+            className="card cloud-cost-panel"
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: 0.3 }}
+            aria-labelledby="cloud-cost-heading"
+        >
+            <div className="card-header">
+                <Cloud size={20} aria-hidden="true" />
+                <h2 id="cloud-cost-heading">Cloud vs Local Cost</h2>
+            </div>
+
+            <p className="serving-hint">
+                Cost per million output tokens of {model.name} at {quantization} with {contextLength.toLocaleString()} tokens of context.
+                Prices are in USD; enter your kWh price in USD to compare.
+            </p>
+
+            <div className="serving-inputs">
+                {localGPUs.map((gpu) => (
+                    <div key={gpu.name} className="form-group">
+                        <label htmlFor={`purchase-${gpu.name}`}>{gpu.name} price (USD)</label>
+                        <input
+                            id={`purchase-${gpu.name}`}
+                            type="number"
+                            className="input-field"
+                            min={0}
+                            step={50}
+                            placeholder="Unknown"
+                            value={getPurchasePrice(gpu, overrides) ?? ''}
+                            onChange={(e) => setPrice('purchase', gpu.name, e.target.value)}
+                        />
+                    </div>
+                ))}
+                {OWNERSHIP_FIELDS.map((field) => (
+                    <div key={field.key} className="form-group">
+                        <label htmlFor={`ownership-${field.key}`}>{field.label}</label>
+                        <input
+                            id={`ownership-${field.key}`}
+                            type="number"
+                            className="input-field"
+                            min={field.min}
+                            max={field.max}
+                            value={ownership[field.key]}
+                            onChange={(e) => {
+                                const value = parseFloat(e.target.value);
+                                if (value >= field.min && value <= field.max) setOwnership({ ...ownership, [field.key]: value });
+                            }}
+                        />
+                    </div>
+                ))}
+            </div>
+
+            {unpriced && (
+                <p className="serving-hint" role="status">
+                    No bundled price for {unpriced}. Enter what you paid to include the hardware in the local cost and break-even.
+                </p>
+            )}
+
+            <div className="stats-grid" role="list" aria-label="Cost comparison">
+                <div className="stat-card" role="listitem">
+                    <div className="stat-icon" aria-hidden="true"><Server size={18} /></div>
+                    <div className="stat-content">
+                        <span className="stat-value">{cheapest ? formatUSD(cheapest.costPerMillionTokens) : '—'}</span>
+                        <span className="stat-label">{cheapest ? `Cheapest Cloud: ${cheapest.name}` : 'No Cloud Instance Fits'}</span>
+                    </div>
+                </div>
+                <div className="stat-card" role="listitem">
+                    <div className="stat-icon" aria-hidden="true"><House size={18} /></div>
+                    <div className="stat-content">
+                        <span className="stat-value">
+                            {comparison.localTotalPerMillion === null ? '—' : formatUSD(comparison.localTotalPerMillion)}
+                        </span>
+                        <span className="stat-label">
+                            {!runsLocally
+                                ? 'Local: Does Not Run'
+                                : comparison.localAmortizedPerMillion === null
+                                    ? `Local: ${formatUSD(comparison.localElectricityPerMillion ?? 0)} power, hardware price unknown`
+                                    : `Local: ${formatUSD(comparison.localAmortizedPerMillion)} hardware + ${formatUSD(comparison.localElectricityPerMillion ?? 0)} power`}
+                        </span>
+                    </div>
+                </div>
+                <div className="stat-card" role="listitem">
+                    <div className="stat-icon" aria-hidden="true"><Scale size={18} /></div>
+                    <div className="stat-content">
+                        <span className="stat-value">
+                            {comparison.breakEvenMillionTokensPerMonth === null
+                                ? '—'
+                                : `${comparison.breakEvenMillionTokensPerMonth.toFixed(1)}M tok/mo`}
+                        </span>
+                        <span className="stat-label">
+                            {!runsLocally
+                                ? 'No Break-Even: Model Does Not Run Locally'
+                                : comparison.unpricedGPUs.length > 0
+                                    ? 'Break-Even Needs the Hardware Price'
+                                    : comparison.breakEvenHoursPerDay === null
+                                        ? 'No Break-Even: Cloud Is Cheaper per Token'
+                                        : comparison.breakEvenHoursPerDay > 24
+                                            ? 'Break-Even Needs More Than 24 h/day'
+                                            : `Break-Even at ~${comparison.breakEvenHoursPerDay.toFixed(1)} h/day`}
+                        </span>
+                    </div>
+                </div>
+            </div>
+
+            <div className="table-scroll" tabIndex={0} role="region" aria-label="Cloud instances">
+                <table aria-label="Cloud instance prices and cost per million tokens">
+                    <thead>
+                        <tr>
+                            <th scope="col">Instance</th>
+                            <th scope="col">USD / hour</th>
+                            <th scope="col">Speed</th>
+                            <th scope="col">Per Million Tokens</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {CLOUD_INSTANCES.map((instance) => {
+                            const option = cloudOptions.find((o) => o.instance.id === instance.id);
+                            return (
+                                <tr key={instance.id} className={`table-row ${option && option === cheapest ? 'optimizer-current' : ''}`}>
+                                    <td>
+                                        <div className="table-model-name">{cloudInstanceName(instance)}</div>
+                                        <span className="table-model-org">{instance.provider} · {instance.gpu.memorySize * instance.gpuCount} GB</span>
+                                    </td>
+                                    <td>
+                                        <input
+                                            type="number"
+                                            className="input-field cloud-price-input"
+                                            min={0}
+                                            step={0.1}
+                                            value={getHourlyPrice(instance, overrides)}
+                                            onChange={(e) => setPrice('cloudHourly', instance.id, e.target.value)}
+                                            aria-label={`${cloudInstanceName(instance)} price per hour`}
+                                        />
+                                    </td>
+                                    <td className="table-params">{option ? `~${option.tokensPerSec} tok/s` : 'Does not fit'}</td>
+                                    <td className="table-vram">{option ? formatUSD(option.costPerMillionTokens) : '—'}</td>
+                                </tr>
+                            );
+                        })}
+                    </tbody>
+                </table>
+            </div>
+
+            {hasOverrides && (
+                <button className="context-btn optimizer-more" onClick={() => onOverridesChange({ cloudHourly: {}, purchase: {} })}>
+                    Reset to bundled prices
+                </button>
+            )}
+        </motion.section>
+    );
+}
@@ -0,0 +1,94 @@
+import { motion } from 'framer-motion';
+import { Zap, Plug, BatteryCharging, Coins } from 'lucide-react';
+import type { EnergyConfig, EnergyResult } from '../types';
+
+interface EnergyPanelProps {
+    energy: EnergyConfig;
+    result: EnergyResult;
+    isServing: boolean;
+    onEnergyChange: (energy: EnergyConfig) => void;
+}
+
+// Utilization is edited as a percentage and stored as a share
+const FIELDS: { key: keyof EnergyConfig; label: string; min: number; max: number; step: number; scale: number }[] = [
+    { key: 'electricityPrice', label: 'Price per kWh', min: 0, max: 10, step: 0.01, scale: 1 },
+    { key: 'gpuUtilization', label: 'GPU draw (% of TDP)', min: 10, max: 100, step: 5, scale: 100 },
+    { key: 'systemBaseWatts', label: 'System base load (W)', min: 0, max: 2000, step: 10, scale: 1 },
+    { key: 'cpuLoadWatts', label: 'CPU under load (W)', min: 0, max: 1000, step: 10, scale: 1 },
+];
+
+export default function EnergyPanel({ energy, result, isServing, onEnergyChange }: EnergyPanelProps) {
+    return (
+        <motion.section
+            className="card energy-panel"
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: 0.3 }}
+            aria-labelledby="energy-heading"
+        >
+            <div className="card-header">
+                <Zap size={20} aria-hidden="true" />
+                <h2 id="energy-heading">Energy & Electricity Cost</h2>
+            </div>
+
+            <div className="serving-inputs">
+                {FIELDS.map((field) => (
+                    <div key={field.key} className="form-group">
+                        <label htmlFor={`energy-${field.key}`}>{field.label}</label>
+                        <input
+                            id={`energy-${field.key}`}
+                            type="number"
+                            className="input-field"
+                            min={field.min}
+                            max={field.max}
+                            step={field.step}
+                            value={Math.round(energy[field.key] * field.scale * 100) / 100}
+                            onChange={(e) => {
+                                const value = parseFloat(e.target.value);
+                                if (value >= field.min && value <= field.max) {
+                                    onEnergyChange({ ...energy, [field.key]: value / field.scale });
+                                }
+                            }}
+                        />
+                    </div>
+                ))}
+            </div>
+
+            <div className="stats-grid" role="list" aria-label="Energy estimates">
+                <div className="stat-card" role="listitem">
+                    <div className="stat-icon" aria-hidden="true"><Plug size={18} /></div>
+                    <div className="stat-content">
+                        <span className="stat-value">~{result.totalWatts} W</span>
+                        <span className="stat-label">GPU {result.gpuWatts} W · System {result.cpuWatts} W</span>
+                    </div>
+                </div>
+                <div className="stat-card" role="listitem">
+                    <div className="stat-icon" aria-hidden="true"><Zap size={18} /></div>
+                    <div className="stat-content">
+                        <span className="stat-value">{result.joulesPerToken === null ? '—' : `${result.joulesPerToken.toFixed(2)} J`}</span>
+                        <span className="stat-label">Per Token at {result.tokensPerSec} tok/s{isServing ? ' (aggregate)' : ''}</span>
+                    </div>
+                </div>
+                <div className="stat-card" role="listitem">
+                    <div className="stat-icon" aria-hidden="true"><BatteryCharging size={18} /></div>
+                    <div className="stat-content">
+                        <span className="stat-value">{result.kWhPerMillionTokens === null ? '—' : `${result.kWhPerMillionTokens.toFixed(2)} kWh`}</span>
+                        <span className="stat-label">Per Million Tokens</span>
+                    </div>
+                </div>
+                <div className="stat-card" role="listitem">
+                    <div className="stat-icon" aria-hidden="true"><Coins size={18} /></div>
+                    <div className="stat-content">
+                        <span className="stat-value">{result.costPerMillionTokens === null ? '—' : result.costPerMillionTokens.toFixed(2)}</span>
+                        <span className="stat-label">Electricity per Million Tokens</span>
+                    </div>
+                </div>
+            </div>
+
+            <p className="serving-hint">
+                Generation only, in the currency of your kWh price.
+                {result.tdpEstimated && ' Some GPUs have no TDP in the database, so their power is estimated from memory bandwidth.'}
+            </p>
+        </motion.section>
+    );
+}
@@ -0,0 +1,182 @@
+import { useMemo, useState } from 'react';
+import { motion } from 'framer-motion';
+import { ShoppingCart } from 'lucide-react';
+import type { ModelConfig, HardwareConfig, GPUInfo, QuantizationType, CalculationOptions, RigRecommendation } from '../types';
+import { recommendHardware } from '../utils/hardwareRecommender';
+
+interface HardwareRecommenderPanelProps {
+    model: ModelConfig;
+    gpus: GPUInfo[];
+    hardware: HardwareConfig;
+    quantization: QuantizationType;
+    contextLength: number;
+    options: CalculationOptions;
+    onHardwareChange: (hardware: HardwareConfig) => void;
+}
+
+type RigSort = 'leanest' | 'fastest';
+
+const DEFAULT_MIN_TOKENS_PER_SEC = 10;
+const COLLAPSED_ROWS = 10;
+
+const SORTS: { key: RigSort; label: string }[] = [
+    { key: 'leanest', label: 'Leanest' },
+    { key: 'fastest', label: 'Fastest' },
+];
+
+export default function HardwareRecommenderPanel({
+    model,
+    gpus,
+    hardware,
+    quantization,
+    contextLength,
+    options,
+    onHardwareChange,
+}: HardwareRecommenderPanelProps) {
+    const [minTokensPerSec, setMinTokensPerSec] = useState(DEFAULT_MIN_TOKENS_PER_SEC);
+    const [sort, setSort] = useState<RigSort>('leanest');
+    const [showAll, setShowAll] = useState(false);
+
+    // Each search runs the full calculation for every GPU and rig size, so it
+    // only runs on request; results remember the inputs they were found for
+    const { splitMode, systemRAM } = hardware;
+    const search = useMemo(
+        () => ({ model, gpus, quantization, contextLength, minTokensPerSec, splitMode, systemRAM, options }),
+        [model, gpus, quantization, contextLength, minTokensPerSec, splitMode, systemRAM, options]
+    );
+    const [found, setFound] = useState<{ search: typeof search; rigs: RigRecommendation[] } | null>(null);
+    const isStale = found !== null && found.search !== search;
+
+    const runSearch = () => {
+        const { model: target, gpus: candidates, ...rigSearch } = search;
+        setFound({ search, rigs: recommendHardware(target, candidates, rigSearch) });
+        setShowAll(false);
+    };
+
+    const rigs = useMemo(() => {
+        const list = found?.rigs ?? [];
+        return sort === 'fastest' ? [...list].sort((a, b) => b.tokensPerSec - a.tokensPerSec) : list;
+    }, [found, sort]);
+    const rows = showAll ? rigs : rigs.slice(0, COLLAPSED_ROWS);
+
+    const isCurrent = (rig: RigRecommendation) => rig.hardware.gpus.length === hardware.gpus.length
+        && hardware.gpus.every((d) => d.gpu.name === rig.hardware.gpus[0].gpu.name);
+
+    return (
+        <motion.section
+            className="card recommender-panel"
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: 0.3 }}
+            aria-labelledby="recommender-heading"
+        >
+            <div className="card-header">
+                <ShoppingCart size={20} aria-hidden="true" />
+                <h2 id="recommender-heading">Hardware Recommender</h2>
+            </div>
+
+            <p className="serving-hint">
+                Rigs that run {model.name} at {quantization} with {contextLength.toLocaleString()} tokens of context fully on GPU:
+                single cards, 2/4/8 of the same card, and Macs.
+            </p>
+
+            <div className="serving-inputs">
+                <div className="form-group">
+                    <label htmlFor="recommender-min-speed">Minimum speed (tok/s)</label>
+                    <input
+                        id="recommender-min-speed"
+                        type="number"
+                        className="input-field"
+                        min={0}
+                        max={200}
+                        value={minTokensPerSec}
+                        onChange={(e) => {
+                            const value = parseFloat(e.target.value);
+                            if (value >= 0) setMinTokensPerSec(value);
+                        }}
+                    />
+                </div>
+                <fieldset className="form-group fieldset-reset">
+                    <legend className="form-legend">Sort by</legend>
+                    <div className="context-presets" role="radiogroup" aria-label="Sort rigs by">
+                        {SORTS.map((s) => (
+                            <button
+                                key={s.key}
+                                className={`context-btn ${sort === s.key ? 'active' : ''}`}
+                                onClick={() => setSort(s.key)}
+                                role="radio"
+                                aria-checked={sort === s.key}
+                            >
+                                {s.label}
+                            </button>
+                        ))}
+                    </div>
+                </fieldset>
+                <div className="form-group">
+                    <button className="context-btn" onClick={runSearch} disabled={gpus.length === 0}>
+                        {found ? 'Search again' : 'Find rigs'}
+                    </button>
+                </div>
+            </div>
+
+            {isStale && (
+                <p className="serving-hint" role="status">
+                    The model or settings changed since this search. Search again to update the list.
+                </p>
+            )}
+
+            {!found ? (
+                <div className="table-empty" role="status">
+                    {gpus.length === 0 ? 'Loading GPU list...' : 'Set a minimum speed and search the GPU list.'}
+                </div>
+            ) : rigs.length === 0 ? (
+                <div className="table-empty" role="status">No rig of up to 8 identical GPUs meets this target.</div>
+            ) : (
+                <div className="table-scroll" tabIndex={0} role="region" aria-label="Recommended rigs">
+                    <table aria-label="Rigs that meet the target">
+                        <thead>
+                            <tr>
+                                <th scope="col">Rig</th>
+                                <th scope="col">Memory</th>
+                                <th scope="col">Headroom</th>
+                                <th scope="col">Speed</th>
+                                <th scope="col"><span className="sr-only">Use</span></th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {rows.map((rig) => {
+                                const current = isCurrent(rig);
+                                return (
+                                    <tr key={rig.name} className={`table-row ${current ? 'optimizer-current' : ''}`}>
+                                        <td>
+                                            <div className="table-model-name">{rig.name}</div>
+                                        </td>
+                                        <td className="table-params">{rig.totalMemoryGB} GB</td>
+                                        <td className="table-vram">+{rig.headroomGB.toFixed(1)} GB</td>
+                                        <td className="table-params">~{rig.tokensPerSec} tok/s</td>
+                                        <td>
+                                            <button
+                                                className={`context-btn ${current ? 'active' : ''}`}
+                                                onClick={() => onHardwareChange(rig.hardware)}
+                                                disabled={current}
+                                                aria-label={`Use ${rig.name}`}
+                                            >
+                                                {current ? 'Current' : 'Use'}
+                                            </button>
+                                        </td>
+                                    </tr>
+                                );
+                            })}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+
+            {rigs.length > COLLAPSED_ROWS && (
+                <button className="context-btn optimizer-more" onClick={() => setShowAll(!showAll)} aria-expanded={showAll}>
+                    {showAll ? 'Show fewer' : `Show all ${rigs.length}`}
+                </button>
+            )}
+        </motion.section>
+    );
+}
@@ -1,23 +1,61 @@
 import { useState, useMemo } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { Monitor, Search, ChevronDown, Apple, Server } from 'lucide-react';
-import type { GPUInfo, HardwareConfig } from '../types';
+import { Monitor, Search, ChevronDown, Apple, Server, Plus, Copy, X, Cpu } from 'lucide-react';
+import type { GPUInfo, GPUDevice, GPUSplitMode, HardwareConfig, CPUInfo, SystemMemoryType, PCIeGen } from '../types';
+import { APPLE_SILICON_PRESETS } from '../data/appleSilicon';
+import { CPU_PRESETS, MEMORY_TYPE_SPEEDS, getCPUPreset } from '../data/cpuPresets';
+import { DEFAULT_RESERVED_RAM_GB, VRAM_RESERVE_PRESETS } from '../data/memoryReserves';
+import { getCPUDecodeBandwidth, getCPUMemoryBandwidth } from '../utils/cpu';
+import { PCIE_LINK_OPTIONS, DEFAULT_PCIE_GEN, DEFAULT_PCIE_LANES, describeLink } from '../utils/interconnect';
+import { formatWiredLimitCommand, getDefaultGPULimitGB, getGPULimitGB, getMaxGPULimitGB } from '../utils/unifiedMemory';
 
 interface HardwareSelectorProps {
     gpus: GPUInfo[];
     gpuLoading: boolean;
     hardware: HardwareConfig;
+    customMacs: GPUInfo[];
     onHardwareChange: (hardware: HardwareConfig) => void;
+    onCustomMacsChange: (presets: GPUInfo[]) => void;
 }
 
+const CUSTOM_CPU = 'Custom CPU';
+
+const CUSTOM_CPU_FIELDS: { key: 'cores' | 'clockGHz' | 'memoryChannels' | 'memorySpeed'; label: string; min: number; max: number; step: number }[] = [
+    { key: 'cores', label: 'Cores', min: 1, max: 256, step: 1 },
+    { key: 'clockGHz', label: 'All-core clock (GHz)', min: 0.5, max: 6.5, step: 0.1 },
+    { key: 'memoryChannels', label: 'Memory channels', min: 1, max: 24, step: 1 },
+    { key: 'memorySpeed', label: 'Memory speed (MT/s)', min: 1600, max: 10000, step: 100 },
+];
+
+type MacDraft = Pick<GPUInfo, 'name' | 'architecture' | 'memorySize' | 'memoryBandwidth' | 'fp16Tflops'>;
+
+// One preset per chip, the source of a custom Mac's architecture and memory type
+const MAC_CHIPS = [...new Map(APPLE_SILICON_PRESETS.map((gpu) => [gpu.architecture, gpu])).values()];
+
+const MAC_FIELDS: { key: 'memorySize' | 'memoryBandwidth' | 'fp16Tflops'; label: string; min: number; max: number; step: number }[] = [
+    { key: 'memorySize', label: 'Unified memory (GB)', min: 8, max: 1024, step: 8 },
+    { key: 'memoryBandwidth', label: 'Bandwidth (GB/s)', min: 50, max: 2000, step: 1 },
+    { key: 'fp16Tflops', label: 'GPU FP16 (TFLOPs)', min: 1, max: 200, step: 0.1 },
+];
+
+const CPU_GROUPS: { label: string; channels: (n: number) => boolean }[] = [
+    { label: 'Desktop', channels: (n) => n <= 2 },
+    { label: 'Workstation', channels: (n) => n > 2 && n <= 8 },
+    { label: 'Server', channels: (n) => n > 8 },
+];
+
 export default function HardwareSelector({
     gpus,
     gpuLoading,
     hardware,
+    customMacs,
     onHardwareChange,
+    onCustomMacsChange,
 }: HardwareSelectorProps) {
     const [gpuSearch, setGpuSearch] = useState('');
+    const [macDraft, setMacDraft] = useState<MacDraft | null>(null);
     const [showDropdown, setShowDropdown] = useState(false);
+    const [dropdownTarget, setDropdownTarget] = useState<'main' | 'add'>('main');
     const [activeVendor, setActiveVendor] = useState<string>('all');
 
     const filteredGPUs = useMemo(() => {
@@ -44,22 +82,167 @@ export default function HardwareSelector({
         { key: 'apple', label: 'Apple' },
     ];
 
+    const splitModes: { key: GPUSplitMode; label: string; description: string }[] = [
+        { key: 'layer', label: 'Layer', description: 'Pipeline — whole layers per GPU' },
+        { key: 'tensor', label: 'Tensor', description: 'Every layer sliced across GPUs' },
+        { key: 'row', label: 'Row', description: 'Weight rows sliced, KV cache on main GPU' },
+    ];
+
+    const mainGPU = hardware.gpus[0]?.gpu ?? null;
+
+    const ramInputId = 'hardware-ram-slider';
+    const vramInputId = 'hardware-vram-override';
+    const gpuSearchId = 'gpu-search-input';
+
     const handleGPUSelect = (gpu: GPUInfo) => {
         const isApple = gpu.vendor === 'apple';
+        let gpus: GPUDevice[];
+        if (isApple || hardware.isAppleSilicon) {
+            // A Mac has a single unified-memory chip
+            gpus = [{ gpu }];
+        } else if (dropdownTarget === 'add') {
+            gpus = [...hardware.gpus, { gpu }];
+        } else {
+            gpus = [{ gpu }, ...hardware.gpus.slice(1)];
+        }
         onHardwareChange({
             ...hardware,
-            gpu,
+            gpus,
             isAppleSilicon: isApple,
-            gpuCount: isApple ? 1 : hardware.gpuCount,
             systemRAM: isApple ? gpu.memorySize : hardware.systemRAM,
+            appleGPULimitGB: undefined,
         });
         setShowDropdown(false);
         setGpuSearch('');
     };
 
-    const ramInputId = 'hardware-ram-slider';
-    const vramInputId = 'hardware-vram-override';
-    const gpuSearchId = 'gpu-search-input';
+    const openDropdown = (target: 'main' | 'add') => {
+        setDropdownTarget(target);
+        setShowDropdown(!showDropdown || dropdownTarget !== target);
+    };
+
+    const updateDevice = (index: number, patch: Partial<GPUDevice>) => {
+        onHardwareChange({
+            ...hardware,
+            gpus: hardware.gpus.map((d, i) => (i === index ? { ...d, ...patch } : d)),
+        });
+    };
+
+    const selectCPU = (name: string) => {
+        let cpu: CPUInfo | undefined;
+        if (name === CUSTOM_CPU) {
+            cpu = { ...(hardware.cpu ?? CPU_PRESETS[0]), name: CUSTOM_CPU };
+        } else {
+            cpu = getCPUPreset(name);
+        }
+        onHardwareChange({ ...hardware, cpu });
+    };
+
+    const updateCPU = (patch: Partial<CPUInfo>) => {
+        if (hardware.cpu) onHardwareChange({ ...hardware, cpu: { ...hardware.cpu, ...patch } });
+    };
+
+    const macNameTaken = (name: string) => gpus.some((gpu) => gpu.name.toLowerCase() === name.trim().toLowerCase());
+
+    const saveMac = (draft: MacDraft) => {
+        const chip = MAC_CHIPS.find((c) => c.architecture === draft.architecture);
+        if (!chip || !draft.name.trim() || macNameTaken(draft.name)) return;
+        const mac: GPUInfo = {
+            ...draft,
+            name: draft.name.trim(),
+            vendor: 'apple',
+            memoryType: chip.memoryType,
+            architecture: chip.architecture,
+            generation: 'Custom',
+        };
+        onCustomMacsChange([...customMacs, mac]);
+        handleGPUSelect(mac);
+        setMacDraft(null);
+    };
+
+    // Removing the Mac in use switches to the closest preset of its chip
+    const removeMac = (mac: GPUInfo) => {
+        onCustomMacsChange(customMacs.filter((m) => m.name !== mac.name));
+        if (mainGPU?.name !== mac.name) return;
+        const closest = APPLE_SILICON_PRESETS
+            .filter((preset) => preset.architecture === mac.architecture)
+            .sort((a, b) => Math.abs(a.memorySize - mac.memorySize) - Math.abs(b.memorySize - mac.memorySize))[0];
+        handleGPUSelect(closest ?? APPLE_SILICON_PRESETS[0]);
+    };
+
+    // A chip brings its own bandwidth and compute; memory size stays as entered
+    const selectMacChip = (draft: MacDraft, architecture: string) => {
+        const chip = MAC_CHIPS.find((c) => c.architecture === architecture);
+        if (chip) setMacDraft({ ...draft, architecture, memoryBandwidth: chip.memoryBandwidth, fp16Tflops: chip.fp16Tflops });
+    };
+
+    const removeDevice = (index: number) => {
+        onHardwareChange({ ...hardware, gpus: hardware.gpus.filter((_, i) => i !== index) });
+    };
+
+    const gpuDropdown = (
+        <AnimatePresence>
+            {showDropdown && (
+                <motion.div
+                    className="dropdown-menu"
+                    initial={{ opacity: 0, y: -10 }}
+                    animate={{ opacity: 1, y: 0 }}
+                    exit={{ opacity: 0, y: -10 }}
+                    transition={{ duration: 0.2 }}
+                    role="listbox"
+                    aria-label="GPU options"
+                >
+                    <div className="dropdown-search">
+                        <Search size={14} aria-hidden="true" />
+                        <input
+                            id={gpuSearchId}
+                            type="text"
+                            placeholder="Search GPUs..."
+                            value={gpuSearch}
+                            onChange={(e) => setGpuSearch(e.target.value)}
+                            autoFocus
+                            aria-label="Search GPUs"
+                        />
+                    </div>
+
+                    <div className="vendor-tabs" role="tablist" aria-label="Filter by vendor">
+                        {vendors.map((v) => (
+                            <button
+                                key={v.key}
+                                className={`vendor-tab ${activeVendor === v.key ? 'active' : ''}`}
+                                onClick={() => setActiveVendor(v.key)}
+                                role="tab"
+                                aria-selected={activeVendor === v.key}
+                            >
+                                {v.label}
+                            </button>
+                        ))}
+                    </div>
+
+                    <div className="dropdown-list">
+                        {filteredGPUs.length === 0 ? (
+                            <div className="dropdown-empty" role="alert">No GPUs found</div>
+                        ) : (
+                            filteredGPUs.map((gpu, i) => (
+                                <button
+                                    key={`${gpu.vendor}-${gpu.name}-${i}`}
+                                    className="dropdown-item"
+                                    onClick={() => handleGPUSelect(gpu)}
+                                    role="option"
+                                    aria-selected={dropdownTarget === 'main' && mainGPU?.name === gpu.name}
+                                >
+                                    <span className={`vendor-dot ${gpu.vendor}`} aria-hidden="true" />
+                                    <span className="gpu-name">{gpu.name}</span>
+                                    <span className="gpu-vram">{gpu.memorySize}GB</span>
+                                </button>
+                            ))
+                        )}
+                    </div>
+                </motion.div>
+            )}
+        </AnimatePresence>
+    );
+
 
     return (
         <motion.section
@@ -80,17 +263,17 @@ export default function HardwareSelector({
                 <div className="dropdown-container">
                     <button
                         className="dropdown-trigger"
-                        onClick={() => setShowDropdown(!showDropdown)}
-                        aria-expanded={showDropdown}
+                        onClick={() => openDropdown('main')}
+                        aria-expanded={showDropdown && dropdownTarget === 'main'}
                         aria-haspopup="listbox"
                         aria-labelledby="gpu-label"
                     >
-                        <span className={hardware.gpu ? '' : 'placeholder'}>
-                            {hardware.gpu ? (
+                        <span className={mainGPU ? '' : 'placeholder'}>
+                            {mainGPU ? (
                                 <>
-                                    <span className={`vendor-dot ${hardware.gpu.vendor}`} aria-hidden="true" />
-                                    {hardware.gpu.name}
-                                    <span className="gpu-vram">{hardware.gpu.memorySize}GB</span>
+                                    <span className={`vendor-dot ${mainGPU.vendor}`} aria-hidden="true" />
+                                    {mainGPU.name}
+                                    <span className="gpu-vram">{mainGPU.memorySize}GB</span>
                                 </>
                             ) : gpuLoading ? (
                                 'Loading GPUs...'
@@ -98,69 +281,10 @@ export default function HardwareSelector({
                                 'Select your GPU'
                             )}
                         </span>
-                        <ChevronDown size={16} className={showDropdown ? 'rotated' : ''} aria-hidden="true" />
+                        <ChevronDown size={16} className={showDropdown && dropdownTarget === 'main' ? 'rotated' : ''} aria-hidden="true" />
                     </button>
 
-                    <AnimatePresence>
-                        {showDropdown && (
-                            <motion.div
-                                className="dropdown-menu"
-                                initial={{ opacity: 0, y: -10 }}
-                                animate={{ opacity: 1, y: 0 }}
-                                exit={{ opacity: 0, y: -10 }}
-                                transition={{ duration: 0.2 }}
-                                role="listbox"
-                                aria-label="GPU options"
-                            >
-                                <div className="dropdown-search">
-                                    <Search size={14} aria-hidden="true" />
-                                    <input
-                                        id={gpuSearchId}
-                                        type="text"
-                                        placeholder="Search GPUs..."
-                                        value={gpuSearch}
-                                        onChange={(e) => setGpuSearch(e.target.value)}
-                                        autoFocus
-                                        aria-label="Search GPUs"
-                                    />
-                                </div>
-
-                                <div className="vendor-tabs" role="tablist" aria-label="Filter by vendor">
-                                    {vendors.map((v) => (
-                                        <button
-                                            key={v.key}
-                                            className={`vendor-tab ${activeVendor === v.key ? 'active' : ''}`}
-                                            onClick={() => setActiveVendor(v.key)}
-                                            role="tab"
-                                            aria-selected={activeVendor === v.key}
-                                        >
-                                            {v.label}
-                                        </button>
-                                    ))}
-                                </div>
-
-                                <div className="dropdown-list">
-                                    {filteredGPUs.length === 0 ? (
-                                        <div className="dropdown-empty" role="alert">No GPUs found</div>
-                                    ) : (
-                                        filteredGPUs.map((gpu, i) => (
-                                            <button
-                                                key={`${gpu.vendor}-${gpu.name}-${i}`}
-                                                className="dropdown-item"
-                                                onClick={() => handleGPUSelect(gpu)}
-                                                role="option"
-                                                aria-selected={hardware.gpu?.name === gpu.name}
-                                            >
-                                                <span className={`vendor-dot ${gpu.vendor}`} aria-hidden="true" />
-                                                <span className="gpu-name">{gpu.name}</span>
-                                                <span className="gpu-vram">{gpu.memorySize}GB</span>
-                                            </button>
-                                        ))
-                                    )}
-                                </div>
-                            </motion.div>
-                        )}
-                    </AnimatePresence>
+                    {dropdownTarget === 'main' && gpuDropdown}
                 </div>
             </div>
 
@@ -177,27 +301,253 @@ export default function HardwareSelector({
                 </motion.div>
             )}
 
-            {/* GPU Count (non-Apple only) */}
-            {!hardware.isAppleSilicon && (
+            {/* GPU wired-memory limit and user-defined Macs */}
+            {hardware.isAppleSilicon && mainGPU && (
                 <fieldset className="form-group fieldset-reset">
                     <legend className="form-legend">
-                        <Server size={14} aria-hidden="true" />
-                        Number of GPUs
+                        <Apple size={14} aria-hidden="true" />
+                        GPU Memory Limit
+                        <span className="label-value">
+                            {getGPULimitGB(mainGPU.memorySize, hardware.appleGPULimitGB).toFixed(0)} of {mainGPU.memorySize} GB
+                        </span>
                     </legend>
-                    <div className="gpu-count-selector" role="radiogroup" aria-label="Number of GPUs">
-                        {[1, 2, 3, 4, 8].map((n) => (
+                    <input
+                        type="number"
+                        className="input-field"
+                        min={1}
+                        max={getMaxGPULimitGB(mainGPU.memorySize)}
+                        step={1}
+                        placeholder={`macOS default — ${getDefaultGPULimitGB(mainGPU.memorySize).toFixed(1)} GB`}
+                        value={hardware.appleGPULimitGB ?? ''}
+                        onChange={(e) => {
+                            const value = parseFloat(e.target.value);
+                            if (!e.target.value) onHardwareChange({ ...hardware, appleGPULimitGB: undefined });
+                            else if (value >= 1 && value <= getMaxGPULimitGB(mainGPU.memorySize)) onHardwareChange({ ...hardware, appleGPULimitGB: value });
+                        }}
+                        aria-label="GPU memory limit in GB"
+                        aria-describedby="apple-limit-hint"
+                    />
+                    <p id="apple-limit-hint" className="memory-note">
+                        {hardware.appleGPULimitGB ? (
+                            <>Apply with <code>{formatWiredLimitCommand(hardware.appleGPULimitGB)}</code> — resets on reboot.</>
+                        ) : (
+                            'Empty uses the macOS default: about 2/3 of memory under 36 GB, 3/4 above.'
+                        )}
+                    </p>
+
+                    {customMacs.length > 0 && (
+                        <ul className="rig-list" aria-label="Custom Macs">
+                            {customMacs.map((mac) => (
+                                <li key={mac.name} className="rig-device">
+                                    <span className="vendor-dot apple" aria-hidden="true" />
+                                    <span className="gpu-name">{mac.name}</span>
+                                    <span className="gpu-vram">{mac.memorySize}GB</span>
+                                    <button
+                                        className="rig-remove"
+                                        onClick={() => removeMac(mac)}
+                                        aria-label={`Remove ${mac.name}`}
+                                    >
+                                        <X size={14} aria-hidden="true" />
+                                    </button>
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+
+                    {macDraft ? (
+                        <>
+                            <div className="mac-fields">
+                                <div className="form-group">
+                                    <label htmlFor="mac-name">Name</label>
+                                    <input
+                                        id="mac-name"
+                                        type="text"
+                                        className="input-field"
+                                        value={macDraft.name}
+                                        onChange={(e) => setMacDraft({ ...macDraft, name: e.target.value })}
+                                        aria-invalid={macNameTaken(macDraft.name)}
+                                        aria-describedby={macNameTaken(macDraft.name) ? 'mac-name-taken' : undefined}
+                                    />
+                                </div>
+                                <div className="form-group">
+                                    <label htmlFor="mac-chip">Chip</label>
+                                    <select
+                                        id="mac-chip"
+                                        className="input-field"
+                                        value={macDraft.architecture ?? ''}
+                                        onChange={(e) => selectMacChip(macDraft, e.target.value)}
+                                    >
+                                        {MAC_CHIPS.map((chip) => (
+                                            <option key={chip.architecture} value={chip.architecture}>{chip.architecture}</option>
+                                        ))}
+                                    </select>
+                                </div>
+                                {MAC_FIELDS.map((field) => (
+                                    <div key={field.key} className="form-group">
+                                        <label htmlFor={`mac-${field.key}`}>{field.label}</label>
+                                        <input
+                                            id={`mac-${field.key}`}
+                                            type="number"
+                                            className="input-field"
+                                            min={field.min}
+                                            max={field.max}
+                                            step={field.step}
+                                            value={macDraft[field.key] ?? ''}
+                                            onChange={(e) => {
+                                                const value = parseFloat(e.target.value);
+                                                if (value >= field.min && value <= field.max) setMacDraft({ ...macDraft, [field.key]: value });
+                                            }}
+                                        />
+                                    </div>
+                                ))}
+                            </div>
+                            {macNameTaken(macDraft.name) && (
+                                <p id="mac-name-taken" className="serving-hint" role="alert">
+                                    {macDraft.name.trim()} already exists. Pick another name.
+                                </p>
+                            )}
+                            <div className="gpu-count-selector">
+                                <button
+                                    className="count-btn"
+                                    onClick={() => saveMac(macDraft)}
+                                    disabled={!macDraft.name.trim() || macNameTaken(macDraft.name)}
+                                >
+                                    Save Mac
+                                </button>
+                                <button className="count-btn" onClick={() => setMacDraft(null)}>
+                                    Cancel
+                                </button>
+                            </div>
+                        </>
+                    ) : (
+                        <div className="rig-actions">
                             <button
-                                key={n}
-                                className={`count-btn ${hardware.gpuCount === n ? 'active' : ''}`}
-                                onClick={() => onHardwareChange({ ...hardware, gpuCount: n })}
-                                role="radio"
-                                aria-checked={hardware.gpuCount === n}
-                                aria-label={`${n} GPU${n > 1 ? 's' : ''}`}
+                                className="count-btn"
+                                onClick={() => setMacDraft({
+                                    name: `${mainGPU.name} (custom)`,
+                                    architecture: MAC_CHIPS.some((c) => c.architecture === mainGPU.architecture)
+                                        ? mainGPU.architecture
+                                        : MAC_CHIPS[MAC_CHIPS.length - 1].architecture,
+                                    memorySize: mainGPU.memorySize,
+                                    memoryBandwidth: mainGPU.memoryBandwidth,
+                                    fp16Tflops: mainGPU.fp16Tflops,
+                                })}
                             >
-                                {n}
+                                <Plus size={14} aria-hidden="true" /> Custom Mac
                             </button>
+                        </div>
+                    )}
+                </fieldset>
+            )}
+
+            {/* Multi-GPU rig (non-Apple only) */}
+            {!hardware.isAppleSilicon && mainGPU && (
+                <fieldset className="form-group fieldset-reset">
+                    <legend className="form-legend">
+                        <Server size={14} aria-hidden="true" />
+                        GPUs in Rig
+                        <span className="label-value">
+                            {hardware.gpus.reduce((sum, d) => sum + d.gpu.memorySize, 0)} GB total
+                        </span>
+                    </legend>
+                    <ul className="rig-list" aria-label="GPUs in this machine">
+                        {hardware.gpus.map((device, i) => (
+                            <li key={i} className="rig-device">
+                                <span className={`vendor-dot ${device.gpu.vendor}`} aria-hidden="true" />
+                                <span className="gpu-name">{i === 0 ? `${device.gpu.name} (main)` : device.gpu.name}</span>
+                                <span className="gpu-vram">{device.gpu.memorySize}GB</span>
+                                <select
+                                    className="input-field rig-link"
+                                    value={`${device.pcieGen ?? DEFAULT_PCIE_GEN}x${device.pcieLanes ?? DEFAULT_PCIE_LANES}`}
+                                    onChange={(e) => {
+                                        const [gen, lanes] = e.target.value.split('x').map(Number);
+                                        updateDevice(i, { pcieGen: gen as PCIeGen, pcieLanes: lanes });
+                                    }}
+                                    aria-label={`PCIe slot of ${device.gpu.name}`}
+                                    title="PCIe slot — risers are often x4 or x1"
+                                >
+                                    {PCIE_LINK_OPTIONS.map((link) => (
+                                        <option key={`${link.gen}x${link.lanes}`} value={`${link.gen}x${link.lanes}`}>
+                                            {describeLink({ pcieGen: link.gen, pcieLanes: link.lanes })}
+                                        </option>
+                                    ))}
+                                </select>
+                                {hardware.gpus.length > 1 && (
+                                    <input
+                                        type="number"
+                                        className="input-field rig-ratio"
+                                        min={0}
+                                        step={1}
+                                        placeholder={String(device.gpu.memorySize)}
+                                        value={device.splitRatio ?? ''}
+                                        onChange={(e) => {
+                                            const value = parseFloat(e.target.value);
+                                            if (!e.target.value) updateDevice(i, { splitRatio: undefined });
+                                            else if (value >= 0) updateDevice(i, { splitRatio: value });
+                                        }}
+                                        aria-label={`Split ratio for ${device.gpu.name} (defaults to its VRAM)`}
+                                        title="Split ratio — defaults to VRAM size"
+                                    />
+                                )}
+                                {i > 0 && (
+                                    <button
+                                        className="rig-remove"
+                                        onClick={() => removeDevice(i)}
+                                        aria-label={`Remove ${device.gpu.name}`}
+                                    >
+                                        <X size={14} aria-hidden="true" />
+                                    </button>
+                                )}
+                            </li>
                         ))}
+                    </ul>
+                    <div className="dropdown-container rig-actions">
+                        <button
+                            className="count-btn"
+                            onClick={() => onHardwareChange({ ...hardware, gpus: [...hardware.gpus, { gpu: mainGPU }] })}
+                        >
+                            <Copy size={14} aria-hidden="true" /> Another {mainGPU.name}
+                        </button>
+                        <button
+                            className="count-btn"
+                            onClick={() => openDropdown('add')}
+                            aria-expanded={showDropdown && dropdownTarget === 'add'}
+                            aria-haspopup="listbox"
+                        >
+                            <Plus size={14} aria-hidden="true" /> Different GPU
+                        </button>
+                        {dropdownTarget === 'add' && gpuDropdown}
                     </div>
+
+                    {hardware.gpus.length > 1 && (
+                        <div className="gpu-count-selector split-mode-selector" role="radiogroup" aria-label="Split mode">
+                            {splitModes.map((mode) => (
+                                <button
+                                    key={mode.key}
+                                    className={`count-btn ${hardware.splitMode === mode.key ? 'active' : ''}`}
+                                    onClick={() => onHardwareChange({ ...hardware, splitMode: mode.key })}
+                                    role="radio"
+                                    aria-checked={hardware.splitMode === mode.key}
+                                    title={mode.description}
+                                >
+                                    {mode.label}
+                                </button>
+                            ))}
+                        </div>
+                    )}
+
+                    {hardware.gpus.length > 1 && hardware.gpus.every((d) => d.gpu.vendor === 'nvidia') && (
+                        <div className="gpu-count-selector" role="group" aria-label="GPU interconnect">
+                            <button
+                                className={`count-btn ${hardware.nvlink ? 'active' : ''}`}
+                                onClick={() => onHardwareChange({ ...hardware, nvlink: !hardware.nvlink })}
+                                aria-pressed={hardware.nvlink ?? false}
+                                title="GPUs bridged with NVLink exchange activations without going through PCIe"
+                            >
+                                NVLink bridge
+                            </button>
+                        </div>
+                    )}
                 </fieldset>
             )}
 
@@ -229,6 +579,164 @@ export default function HardwareSelector({
                 </div>
             </div>
 
+            {/* VRAM held by displays and apps, RAM held by the OS */}
+            <fieldset className="form-group fieldset-reset">
+                <legend className="form-legend">
+                    <Monitor size={14} aria-hidden="true" />
+                    Reserved Memory
+                    <span className="label-value">
+                        {!hardware.isAppleSilicon && `${hardware.gpus.reduce((sum, d) => sum + (d.reservedVRAMGB ?? 0), 0)} GB VRAM · `}
+                        {hardware.reservedRAMGB ?? DEFAULT_RESERVED_RAM_GB} GB RAM
+                    </span>
+                </legend>
+                {!hardware.isAppleSilicon && hardware.gpus.length > 0 && (
+                    <ul className="rig-list" aria-label="VRAM reserved per GPU">
+                        {hardware.gpus.map((device, i) => {
+                            const preset = VRAM_RESERVE_PRESETS.find((p) => p.reservedGB === (device.reservedVRAMGB ?? 0));
+                            return (
+                                <li key={i} className="rig-device">
+                                    <span className={`vendor-dot ${device.gpu.vendor}`} aria-hidden="true" />
+                                    <span className="gpu-name">GPU {i}: {device.gpu.name}</span>
+                                    <select
+                                        className="input-field rig-link"
+                                        value={preset?.id ?? 'custom'}
+                                        onChange={(e) => {
+                                            const picked = VRAM_RESERVE_PRESETS.find((p) => p.id === e.target.value);
+                                            if (picked) updateDevice(i, { reservedVRAMGB: picked.reservedGB || undefined });
+                                        }}
+                                        aria-label={`What else uses ${device.gpu.name}`}
+                                    >
+                                        {VRAM_RESERVE_PRESETS.map((p) => (
+                                            <option key={p.id} value={p.id} title={p.description}>{p.label}</option>
+                                        ))}
+                                        {!preset && <option value="custom">Custom</option>}
+                                    </select>
+                                    <input
+                                        type="number"
+                                        className="input-field rig-ratio"
+                                        min={0}
+                                        max={device.gpu.memorySize}
+                                        step={0.1}
+                                        value={device.reservedVRAMGB ?? 0}
+                                        onChange={(e) => {
+                                            const value = parseFloat(e.target.value);
+                                            if (value >= 0 && value <= device.gpu.memorySize) updateDevice(i, { reservedVRAMGB: value || undefined });
+                                        }}
+                                        aria-label={`VRAM reserved on ${device.gpu.name} in GB`}
+                                        title="Reserved VRAM (GB)"
+                                    />
+                                </li>
+                            );
+                        })}
+                    </ul>
+                )}
+                <label htmlFor="reserved-ram">OS and other apps (GB of RAM)</label>
+                <input
+                    id="reserved-ram"
+                    type="number"
+                    className="input-field"
+                    min={0}
+                    max={hardware.systemRAM}
+                    step={1}
+                    placeholder={`Default — ${DEFAULT_RESERVED_RAM_GB} GB`}
+                    value={hardware.reservedRAMGB ?? ''}
+                    onChange={(e) => {
+                        // A cleared field goes back to the default reserve
+                        if (e.target.value.trim() === '') {
+                            onHardwareChange({ ...hardware, reservedRAMGB: undefined });
+                            return;
+                        }
+                        const value = parseFloat(e.target.value);
+                        if (value >= 0 && value <= hardware.systemRAM) onHardwareChange({ ...hardware, reservedRAMGB: value });
+                    }}
+                />
+            </fieldset>
+
+            {/* CPU and memory channels (discrete-GPU machines) */}
+            {!hardware.isAppleSilicon && (
+                <fieldset className="form-group fieldset-reset">
+                    <legend className="form-legend">
+                        <Cpu size={14} aria-hidden="true" />
+                        CPU
+                        {hardware.cpu && (
+                            <span className="label-value">
+                                ~{Math.round(getCPUDecodeBandwidth(hardware.cpu))} of {Math.round(getCPUMemoryBandwidth(hardware.cpu))} GB/s
+                            </span>
+                        )}
+                    </legend>
+                    <select
+                        className="input-field"
+                        value={hardware.cpu?.name ?? ''}
+                        onChange={(e) => selectCPU(e.target.value)}
+                        aria-label="CPU"
+                    >
+                        <option value="">Not set — flat CPU penalty</option>
+                        {CPU_GROUPS.map((group) => (
+                            <optgroup key={group.label} label={group.label}>
+                                {CPU_PRESETS.filter((cpu) => group.channels(cpu.memoryChannels)).map((cpu) => (
+                                    <option key={cpu.name} value={cpu.name}>
+                                        {cpu.name} — {cpu.cores} cores, {cpu.memoryChannels}× {cpu.memoryType}-{cpu.memorySpeed}
+                                    </option>
+                                ))}
+                            </optgroup>
+                        ))}
+                        <option value={CUSTOM_CPU}>Custom…</option>
+                    </select>
+
+                    {hardware.cpu?.name === CUSTOM_CPU && (
+                        <>
+                            <div className="cpu-fields">
+                                {CUSTOM_CPU_FIELDS.map((field) => (
+                                    <div key={field.key} className="form-group">
+                                        <label htmlFor={`cpu-${field.key}`}>{field.label}</label>
+                                        <input
+                                            id={`cpu-${field.key}`}
+                                            type="number"
+                                            className="input-field"
+                                            min={field.min}
+                                            max={field.max}
+                                            step={field.step}
+                                            value={hardware.cpu?.[field.key] ?? ''}
+                                            onChange={(e) => {
+                                                const value = parseFloat(e.target.value);
+                                                if (value >= field.min && value <= field.max) updateCPU({ [field.key]: value });
+                                            }}
+                                        />
+                                    </div>
+                                ))}
+                            </div>
+                            <div className="gpu-count-selector" role="group" aria-label="Memory type and instruction sets">
+                                {(Object.keys(MEMORY_TYPE_SPEEDS) as SystemMemoryType[]).map((type) => (
+                                    <button
+                                        key={type}
+                                        className={`count-btn ${hardware.cpu?.memoryType === type ? 'active' : ''}`}
+                                        onClick={() => updateCPU({ memoryType: type, memorySpeed: MEMORY_TYPE_SPEEDS[type] })}
+                                        aria-pressed={hardware.cpu?.memoryType === type}
+                                        title={`Sets the memory speed to ${type}-${MEMORY_TYPE_SPEEDS[type]}`}
+                                    >
+                                        {type}
+                                    </button>
+                                ))}
+                                <button
+                                    className={`count-btn ${hardware.cpu.avx512 ? 'active' : ''}`}
+                                    onClick={() => updateCPU({ avx512: !hardware.cpu?.avx512 })}
+                                    aria-pressed={hardware.cpu.avx512}
+                                >
+                                    AVX-512
+                                </button>
+                                <button
+                                    className={`count-btn ${hardware.cpu.amx ? 'active' : ''}`}
+                                    onClick={() => updateCPU({ amx: !hardware.cpu?.amx })}
+                                    aria-pressed={hardware.cpu.amx}
+                                >
+                                    AMX
+                                </button>
+                            </div>
+                        </>
+                    )}
+                </fieldset>
+            )}
+
             {/* Custom VRAM Override */}
             <div className="form-group">
                 <label htmlFor={vramInputId}>
@@ -1,13 +1,18 @@
 import { useMemo } from 'react';
 import { motion } from 'framer-motion';
 import { Table, ArrowUpDown } from 'lucide-react';
-import type { ModelConfig, HardwareConfig, QuantizationType, CompatibilityVerdict } from '../types';
+import type { ModelConfig, HardwareConfig, QuantizationType, QuantizationParams, CompatibilityVerdict, InferenceRuntime, KVCacheConfig, ComputeBufferConfig, MediaConfig } from '../types';
 import { quickCheck } from '../utils/calculationEngine';
 
 interface ModelComparisonTableProps {
     models: ModelConfig[];
     hardware: HardwareConfig;
     quantization: QuantizationType;
+    quantParams: QuantizationParams;
+    runtime: InferenceRuntime;
+    kvCache: KVCacheConfig;
+    computeBuffer: ComputeBufferConfig;
+    media: MediaConfig;
     onModelSelect: (model: ModelConfig) => void;
 }
 
@@ -22,19 +27,24 @@ export default function ModelComparisonTable({
     models,
     hardware,
     quantization,
+    quantParams,
+    runtime,
+    kvCache,
+    computeBuffer,
+    media,
     onModelSelect,
 }: ModelComparisonTableProps) {
     const results = useMemo(() => {
         return models.map((model) => {
-            const { verdict, vramNeeded } = quickCheck(model, hardware, quantization);
+            const { verdict, vramNeeded } = quickCheck(model, hardware, quantization, { runtime, kvCache, computeBuffer, quantParams, media });
             return { model, verdict, vramNeeded };
         }).sort((a, b) => {
             const order: Record<CompatibilityVerdict, number> = { full_gpu: 0, partial_offload: 1, cpu_only: 2, cannot_run: 3 };
             return order[a.verdict] - order[b.verdict] || a.vramNeeded - b.vramNeeded;
         });
-    }, [models, hardware, quantization]);
+    }, [models, hardware, quantization, quantParams, runtime, kvCache, computeBuffer, media]);
 
-    if (!hardware.gpu) {
+    if (hardware.gpus.length === 0) {
         return (
             <motion.section
                 className="card comparison-table"
@@ -1,35 +1,70 @@
 import { useState, useCallback, useRef } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { Brain, Search, Sparkles, Settings2, ChevronDown } from 'lucide-react';
-import type { ModelConfig, QuantizationType } from '../types';
-import { QUANTIZATION_OPTIONS } from '../utils/calculationEngine';
+import { Brain, Search, Sparkles, Settings2, ChevronDown, Cog, Eye, Mic } from 'lucide-react';
+import type { ModelConfig, QuantizationType, QuantizationParams, InferenceRuntime, KVCacheConfig, ComputeBufferConfig, MoEOffloadMode, GPUInfo, QuantizationFamily, ContextLimits, MediaConfig } from '../types';
+import { KV_CACHE_OPTIONS, MOE_OFFLOAD_OPTIONS, getBitsPerWeight } from '../utils/calculationEngine';
 import { MODEL_CATEGORIES } from '../data/popularModels';
+import { QUANTIZATION_FORMATS, QUANTIZATION_FAMILIES, GROUP_SIZE_OPTIONS, getQuantizationFormat, isFormatSupportedOnGPU } from '../data/quantizations';
+import { RUNTIME_PROFILES, getRuntimeProfile } from '../data/runtimeProfiles';
 import { searchHuggingFaceModels } from '../services/huggingFaceService';
 
 interface ModelSelectorProps {
     popularModels: ModelConfig[];
     selectedModel: ModelConfig | null;
+    gpus: GPUInfo[];
     quantization: QuantizationType;
+    quantParams: QuantizationParams;
+    runtime: InferenceRuntime;
+    kvCache: KVCacheConfig;
+    computeBuffer: ComputeBufferConfig;
+    moeOffload: MoEOffloadMode;
     contextLength: number;
+    contextLimits: ContextLimits | null;
+    promptTokens: number;
+    media: MediaConfig;
     onModelSelect: (model: ModelConfig) => void;
     onQuantizationChange: (q: QuantizationType) => void;
+    onQuantParamsChange: (params: QuantizationParams) => void;
+    onRuntimeChange: (runtime: InferenceRuntime) => void;
+    onKVCacheChange: (kvCache: KVCacheConfig) => void;
+    onComputeBufferChange: (computeBuffer: ComputeBufferConfig) => void;
+    onMoEOffloadChange: (mode: MoEOffloadMode) => void;
     onContextLengthChange: (len: number) => void;
+    onPromptTokensChange: (tokens: number) => void;
+    onMediaChange: (media: MediaConfig) => void;
 }
 
 export default function ModelSelector({
     popularModels,
     selectedModel,
+    gpus,
     quantization,
+    quantParams,
+    runtime,
+    kvCache,
+    computeBuffer,
+    moeOffload,
     contextLength,
+    contextLimits,
+    promptTokens,
+    media,
     onModelSelect,
     onQuantizationChange,
+    onQuantParamsChange,
+    onRuntimeChange,
+    onKVCacheChange,
+    onComputeBufferChange,
+    onMoEOffloadChange,
     onContextLengthChange,
+    onPromptTokensChange,
+    onMediaChange,
 }: ModelSelectorProps) {
     const [activeTab, setActiveTab] = useState<string>('popular');
     const [searchQuery, setSearchQuery] = useState('');
     const [searchResults, setSearchResults] = useState<ModelConfig[]>([]);
     const [isSearching, setIsSearching] = useState(false);
     const [showQuantDropdown, setShowQuantDropdown] = useState(false);
+    const [showRuntimeDropdown, setShowRuntimeDropdown] = useState(false);
     const debounceRef = useRef<ReturnType<typeof setTimeout> | null>(null);
 
     const handleSearch = useCallback((query: string) => {
@@ -68,6 +103,37 @@ export default function ModelSelector({
         : [{ label: 'Search Results', models: displayModels }];
 
     const contextPresets = [2048, 4096, 8192, 16384, 32768, 65536, 131072];
+    // Position on the context band, log scale from the first preset to the model's max
+    const bandPosition = (tokens: number) => {
+        if (!contextLimits) return 0;
+        const min = contextPresets[0];
+        const span = Math.log(Math.max(contextLimits.maxContextLength, min * 2) / min);
+        return Math.min(100, Math.max(0, (Math.log(Math.max(tokens, min) / min) / span) * 100));
+    };
+    const formatTokens = (tokens: number | null) => tokens === null ? 'none' : tokens.toLocaleString();
+    const promptPresets = [512, 2048, 8192, 20480, 32768, 65536];
+    const mediaPresets = [0, 1, 2, 4, 8];
+    const mediaRows = (selectedModel?.encoders ?? []).map((e) => e.modality === 'vision'
+        ? { key: 'images' as const, label: 'Images', tokensPerItem: e.tokensPerItem }
+        : { key: 'audioClips' as const, label: 'Audio clips', tokensPerItem: e.tokensPerItem });
+    const effectivePrompt = Math.min(promptTokens, contextLength);
+    const runtimeProfile = getRuntimeProfile(runtime);
+    const ubatchPresets = [128, 256, 512, 1024, 2048, 4096];
+    const ubatchSize = computeBuffer.ubatchSize ?? runtimeProfile.batchSize;
+    const flashAttention = computeBuffer.flashAttention || !runtimeProfile.worstCaseGraph;
+    const quantFormat = getQuantizationFormat(quantization);
+    // Formats every GPU in the rig can run, grouped by family
+    const quantGroups = Object.entries(QUANTIZATION_FAMILIES).reduce((acc, [family, label]) => {
+        const formats = QUANTIZATION_FORMATS.filter(
+            (q) => q.family === family && gpus.every((gpu) => isFormatSupportedOnGPU(q, gpu))
+        );
+        if (formats.length > 0) acc.push({ family: family as QuantizationFamily, label, formats });
+        return acc;
+    }, [] as { family: QuantizationFamily; label: string; formats: typeof QUANTIZATION_FORMATS }[]);
+    const kvCacheRows: { key: keyof KVCacheConfig; label: string }[] = [
+        { key: 'typeK', label: 'K' },
+        { key: 'typeV', label: 'V' },
+    ];
 
     return (
         <motion.section
@@ -140,7 +206,7 @@ export default function ModelSelector({
                                 whileHover={{ scale: 1.01 }}
                                 whileTap={{ scale: 0.99 }}
                                 aria-pressed={selectedModel?.id === model.id}
-                                aria-label={`${model.name} by ${model.organization}, ${model.params >= 1 ? `${model.params.toFixed(1)} billion` : `${(model.params * 1000).toFixed(0)} million`} parameters${model.isMoE ? ', Mixture of Experts' : ''}`}
+                                aria-label={`${model.name} by ${model.organization}, ${model.params >= 1 ? `${model.params.toFixed(1)} billion` : `${(model.params * 1000).toFixed(0)} million`} parameters${model.isMoE ? ', Mixture of Experts' : ''}${model.encoders?.length ? ', multimodal' : ''}`}
                             >
                                 <div className="model-card-header">
                                     <span className="model-name">{model.name}</span>
@@ -152,6 +218,12 @@ export default function ModelSelector({
                                                 MoE
                                             </span>
                                         )}
+                                        {model.encoders?.map((e) => (
+                                            <span key={e.modality} className="moe-badge multimodal-badge">
+                                                {e.modality === 'vision' ? <Eye size={10} aria-hidden="true" /> : <Mic size={10} aria-hidden="true" />}
+                                                {e.modality === 'vision' ? 'Vision' : 'Audio'}
+                                            </span>
+                                        ))}
                                     </span>
                                 </div>
                                 <div className="model-card-meta">
@@ -172,6 +244,56 @@ export default function ModelSelector({
                 )}
             </div>
 
+            {/* Inference Runtime */}
+            <div className="form-group">
+                <label id="runtime-label">
+                    <Cog size={14} aria-hidden="true" />
+                    Runtime
+                </label>
+                <div className="dropdown-container">
+                    <button
+                        className="dropdown-trigger"
+                        onClick={() => setShowRuntimeDropdown(!showRuntimeDropdown)}
+                        aria-expanded={showRuntimeDropdown}
+                        aria-haspopup="listbox"
+                        aria-labelledby="runtime-label"
+                    >
+                        <span>{runtimeProfile.name}</span>
+                        <ChevronDown size={16} className={showRuntimeDropdown ? 'rotated' : ''} aria-hidden="true" />
+                    </button>
+                    <AnimatePresence>
+                        {showRuntimeDropdown && (
+                            <motion.div
+                                className="dropdown-menu quant-dropdown"
+                                initial={{ opacity: 0, y: -10 }}
+                                animate={{ opacity: 1, y: 0 }}
+                                exit={{ opacity: 0, y: -10 }}
+                                role="listbox"
+                                aria-label="Runtime options"
+                            >
+                                <div className="dropdown-list">
+                                    {RUNTIME_PROFILES.map((profile) => (
+                                        <button
+                                            key={profile.id}
+                                            className={`dropdown-item ${runtime === profile.id ? 'selected' : ''}`}
+                                            onClick={() => {
+                                                onRuntimeChange(profile.id);
+                                                setShowRuntimeDropdown(false);
+                                            }}
+                                            role="option"
+                                            aria-selected={runtime === profile.id}
+                                        >
+                                            <span className="quant-label">{profile.name}</span>
+                                            <span className="quant-desc">{profile.description}</span>
+                                        </button>
+                                    ))}
+                                </div>
+                            </motion.div>
+                        )}
+                    </AnimatePresence>
+                </div>
+            </div>
+
             {/* Quantization */}
             <div className="form-group">
                 <label id="quant-label">
@@ -187,7 +309,8 @@ export default function ModelSelector({
                         aria-labelledby="quant-label"
                     >
                         <span>
-                            {QUANTIZATION_OPTIONS.find((q) => q.value === quantization)?.label || quantization}
+                            {quantFormat.label}
+                            {(quantFormat.bpwRange || quantFormat.groupSize) && ` · ${getBitsPerWeight(quantization, quantParams).toFixed(2)} bpw`}
                         </span>
                         <ChevronDown size={16} className={showQuantDropdown ? 'rotated' : ''} aria-hidden="true" />
                     </button>
@@ -202,28 +325,168 @@ export default function ModelSelector({
                                 aria-label="Quantization options"
                             >
                                 <div className="dropdown-list">
-                                    {QUANTIZATION_OPTIONS.map((opt) => (
-                                        <button
-                                            key={opt.value}
-                                            className={`dropdown-item ${quantization === opt.value ? 'selected' : ''}`}
-                                            onClick={() => {
-                                                onQuantizationChange(opt.value);
-                                                setShowQuantDropdown(false);
-                                            }}
-                                            role="option"
-                                            aria-selected={quantization === opt.value}
-                                        >
-                                            <span className="quant-label">{opt.label}</span>
-                                            <span className="quant-desc">{opt.description}</span>
-                                        </button>
+                                    {quantGroups.map((group) => (
+                                        <div key={group.family} role="group" aria-label={group.label}>
+                                            <div className="model-group-label" aria-hidden="true">{group.label}</div>
+                                            {group.formats.map((opt) => {
+                                                const supported = opt.runtimes.includes(runtime);
+                                                return (
+                                                    <button
+                                                        key={opt.id}
+                                                        className={`dropdown-item ${quantization === opt.id ? 'selected' : ''} ${supported ? '' : 'unsupported'}`}
+                                                        onClick={() => {
+                                                            onQuantizationChange(opt.id);
+                                                            setShowQuantDropdown(false);
+                                                        }}
+                                                        role="option"
+                                                        aria-selected={quantization === opt.id}
+                                                    >
+                                                        <span className="quant-label">{opt.label}</span>
+                                                        <span className="quant-desc">
+                                                            {supported ? opt.description : `Not available in ${runtimeProfile.name}`}
+                                                        </span>
+                                                    </button>
+                                                );
+                                            })}
+                                        </div>
                                     ))}
                                 </div>
                             </motion.div>
                         )}
                     </AnimatePresence>
                 </div>
+
+                {/* Free bits-per-weight rate (EXL2/EXL3) */}
+                {quantFormat.bpwRange && (
+                    <div className="quant-params">
+                        <label htmlFor="quant-bpw">
+                            Bits per weight
+                            <span className="label-value">{getBitsPerWeight(quantization, quantParams).toFixed(2)}</span>
+                        </label>
+                        <input
+                            id="quant-bpw"
+                            type="range"
+                            min={quantFormat.bpwRange[0]}
+                            max={quantFormat.bpwRange[1]}
+                            step={0.05}
+                            value={getBitsPerWeight(quantization, quantParams)}
+                            onChange={(e) => onQuantParamsChange({ ...quantParams, bitsPerWeight: parseFloat(e.target.value) })}
+                            className="slider"
+                            aria-valuetext={`${getBitsPerWeight(quantization, quantParams).toFixed(2)} bits per weight`}
+                        />
+                    </div>
+                )}
+
+                {/* Group size (GPTQ/AWQ) */}
+                {quantFormat.groupSize && (
+                    <div className="context-presets quant-params" role="radiogroup" aria-label="Group size">
+                        {GROUP_SIZE_OPTIONS.map((size) => {
+                            const active = (quantParams.groupSize ?? quantFormat.groupSize) === size;
+                            return (
+                                <button
+                                    key={size}
+                                    className={`context-btn ${active ? 'active' : ''}`}
+                                    onClick={() => onQuantParamsChange({ ...quantParams, groupSize: size })}
+                                    role="radio"
+                                    aria-checked={active}
+                                >
+                                    g{size}
+                                </button>
+                            );
+                        })}
+                    </div>
+                )}
             </div>
 
+            {/* KV Cache Precision */}
+            <fieldset className="form-group fieldset-reset">
+                <legend className="form-legend">
+                    KV Cache
+                    <span className="label-value">K {kvCache.typeK} · V {kvCache.typeV}</span>
+                </legend>
+                {kvCacheRows.map((row) => (
+                    <div key={row.key} className="kv-cache-row" role="radiogroup" aria-label={`${row.label} cache type`}>
+                        <span className="kv-cache-row-label" aria-hidden="true">{row.label}</span>
+                        {KV_CACHE_OPTIONS.map((opt) => {
+                            const supported = runtimeProfile.supportedKVCacheTypes.includes(opt.value);
+                            return (
+                                <button
+                                    key={opt.value}
+                                    className={`context-btn ${kvCache[row.key] === opt.value ? 'active' : ''} ${supported ? '' : 'unsupported'}`}
+                                    onClick={() => onKVCacheChange({ ...kvCache, [row.key]: opt.value })}
+                                    role="radio"
+                                    aria-checked={kvCache[row.key] === opt.value}
+                                    title={supported ? opt.description : `Not available in ${runtimeProfile.name}`}
+                                >
+                                    {opt.label}
+                                </button>
+                            );
+                        })}
+                    </div>
+                ))}
+            </fieldset>
+
+            {/* Compute Buffer (batch size / flash attention) */}
+            <fieldset className="form-group fieldset-reset">
+                <legend className="form-legend">
+                    Compute Buffer
+                    <span className="label-value">ubatch {ubatchSize} · flash attention {flashAttention ? 'on' : 'off'}</span>
+                </legend>
+                <div className="kv-cache-row" role="radiogroup" aria-label="Tokens per forward pass">
+                    <span className="kv-cache-row-label" aria-hidden="true">-ub</span>
+                    {ubatchPresets.map((size) => (
+                        <button
+                            key={size}
+                            className={`context-btn ${ubatchSize === size ? 'active' : ''}`}
+                            onClick={() => onComputeBufferChange({ ...computeBuffer, ubatchSize: size })}
+                            role="radio"
+                            aria-checked={ubatchSize === size}
+                        >
+                            {size}
+                        </button>
+                    ))}
+                </div>
+                <div className="kv-cache-row" role="radiogroup" aria-label="Flash attention">
+                    <span className="kv-cache-row-label" aria-hidden="true">-fa</span>
+                    {[true, false].map((on) => (
+                        <button
+                            key={String(on)}
+                            className={`context-btn ${flashAttention === on ? 'active' : ''} ${on || runtimeProfile.worstCaseGraph ? '' : 'unsupported'}`}
+                            onClick={() => onComputeBufferChange({ ...computeBuffer, flashAttention: on })}
+                            role="radio"
+                            aria-checked={flashAttention === on}
+                            title={on || runtimeProfile.worstCaseGraph ? undefined : `${runtimeProfile.name} always uses fused attention`}
+                        >
+                            {on ? 'On' : 'Off'}
+                        </button>
+                    ))}
+                </div>
+            </fieldset>
+
+            {/* MoE Expert Offload */}
+            {selectedModel?.isMoE && (
+                <fieldset className="form-group fieldset-reset">
+                    <legend className="form-legend">MoE Offload</legend>
+                    <div className="context-presets" role="radiogroup" aria-label="MoE offload strategy">
+                        {MOE_OFFLOAD_OPTIONS.map((opt) => {
+                            const supported = opt.value === 'layers' || runtimeProfile.supportsExpertOffload;
+                            return (
+                                <button
+                                    key={opt.value}
+                                    className={`context-btn ${moeOffload === opt.value ? 'active' : ''} ${supported ? '' : 'unsupported'}`}
+                                    onClick={() => onMoEOffloadChange(opt.value)}
+                                    role="radio"
+                                    aria-checked={moeOffload === opt.value}
+                                    title={supported ? opt.description : `Not available in ${runtimeProfile.name}`}
+                                >
+                                    {opt.label}
+                                </button>
+                            );
+                        })}
+                    </div>
+                </fieldset>
+            )}
+
             {/* Context Length */}
             <fieldset className="form-group fieldset-reset">
                 <legend className="form-legend">
@@ -244,7 +507,89 @@ export default function ModelSelector({
                         </button>
                     ))}
                 </div>
+
+                {contextLimits && (
+                    <div className="context-band">
+                        <div
+                            className="context-band-track"
+                            role="img"
+                            aria-label={`Full GPU up to ${formatTokens(contextLimits.fullGPU)} tokens, with offload up to ${formatTokens(contextLimits.partialOffload)} tokens`}
+                        >
+                            <div
+                                className="context-band-segment fits-gpu"
+                                style={{ width: `${contextLimits.fullGPU ? bandPosition(contextLimits.fullGPU) : 0}%` }}
+                            />
+                            <div
+                                className="context-band-segment fits-offload"
+                                style={{
+                                    width: `${contextLimits.partialOffload
+                                        ? bandPosition(contextLimits.partialOffload) - (contextLimits.fullGPU ? bandPosition(contextLimits.fullGPU) : 0)
+                                        : 0}%`,
+                                }}
+                            />
+                            <div className="context-band-marker" style={{ left: `${bandPosition(contextLength)}%` }} />
+                        </div>
+                        <div className="context-band-legend">
+                            <span className="legend-item">
+                                <span className="legend-dot fits-gpu" aria-hidden="true" />
+                                Full GPU ≤ {formatTokens(contextLimits.fullGPU)}
+                            </span>
+                            <span className="legend-item">
+                                <span className="legend-dot fits-offload" aria-hidden="true" />
+                                Offload ≤ {formatTokens(contextLimits.partialOffload)}
+                            </span>
+                        </div>
+                    </div>
+                )}
             </fieldset>
+
+            {/* Prompt Length (prefill / time to first token) */}
+            <fieldset className="form-group fieldset-reset">
+                <legend className="form-legend">
+                    Prompt Length
+                    <span className="label-value">{effectivePrompt.toLocaleString()} tokens</span>
+                </legend>
+                <div className="context-presets" role="radiogroup" aria-label="Prompt length">
+                    {promptPresets.map((preset) => (
+                        <button
+                            key={preset}
+                            className={`context-btn ${effectivePrompt === preset ? 'active' : ''}`}
+                            onClick={() => onPromptTokensChange(preset)}
+                            disabled={preset > contextLength}
+                            role="radio"
+                            aria-checked={effectivePrompt === preset}
+                            aria-label={`${preset / 1024}K token prompt`}
+                        >
+                            {preset >= 1024 ? `${preset / 1024}K` : preset}
+                        </button>
+                    ))}
+                </div>
+            </fieldset>
+
+            {/* Images / audio per request (multimodal models) */}
+            {mediaRows.map((row) => (
+                <fieldset key={row.key} className="form-group fieldset-reset">
+                    <legend className="form-legend">
+                        {row.label} per Request
+                        <span className="label-value">
+                            {(media[row.key] * row.tokensPerItem).toLocaleString()} tokens ({row.tokensPerItem.toLocaleString()} each)
+                        </span>
+                    </legend>
+                    <div className="context-presets" role="radiogroup" aria-label={`${row.label} per request`}>
+                        {mediaPresets.map((count) => (
+                            <button
+                                key={count}
+                                className={`context-btn ${media[row.key] === count ? 'active' : ''}`}
+                                onClick={() => onMediaChange({ ...media, [row.key]: count })}
+                                role="radio"
+                                aria-checked={media[row.key] === count}
+                            >
+                                {count}
+                            </button>
+                        ))}
+                    </div>
+                </fieldset>
+            ))}
         </motion.section>
     );
 }
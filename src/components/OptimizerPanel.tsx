@@ -0,0 +1,137 @@
+import { useMemo, useState } from 'react';
+import { motion } from 'framer-motion';
+import { Sparkles, Check } from 'lucide-react';
+import type { ModelConfig, HardwareConfig, CalculationOptions, QuantizationType, QuantizationParams, MoEOffloadMode, OptimizedConfig } from '../types';
+import { findParetoConfigurations } from '../utils/optimizer';
+
+interface OptimizerPanelProps {
+    model: ModelConfig;
+    hardware: HardwareConfig;
+    options: CalculationOptions;
+    quantization: QuantizationType;
+    quantParams: QuantizationParams;
+    contextLength: number;
+    moeOffload: MoEOffloadMode;
+    onApply: (config: OptimizedConfig) => void;
+}
+
+const COLLAPSED_ROWS = 8;
+
+function formatContext(tokens: number): string {
+    return tokens >= 1024 ? `${Math.round(tokens / 1024)}K` : `${tokens}`;
+}
+
+function formatQuant(config: OptimizedConfig): string {
+    const { bitsPerWeight, groupSize } = config.quantParams;
+    if (bitsPerWeight) return `${config.quantization} ${bitsPerWeight} bpw`;
+    if (groupSize) return `${config.quantization} g${groupSize}`;
+    return config.quantization;
+}
+
+export default function OptimizerPanel({
+    model,
+    hardware,
+    options,
+    quantization,
+    quantParams,
+    contextLength,
+    moeOffload,
+    onApply,
+}: OptimizerPanelProps) {
+    const [showAll, setShowAll] = useState(false);
+
+    const front = useMemo(
+        () => findParetoConfigurations(model, hardware, options),
+        [model, hardware, options]
+    );
+    const rows = showAll ? front : front.slice(0, COLLAPSED_ROWS);
+
+    const isCurrent = (c: OptimizedConfig) => c.quantization === quantization
+        && c.contextLength === contextLength
+        && c.moeOffload === moeOffload
+        && c.quantParams.bitsPerWeight === quantParams.bitsPerWeight
+        && c.quantParams.groupSize === quantParams.groupSize;
+
+    return (
+        <motion.section
+            className="card optimizer-panel"
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: 0.3 }}
+            aria-labelledby="optimizer-heading"
+        >
+            <div className="card-header">
+                <Sparkles size={20} aria-hidden="true" />
+                <h2 id="optimizer-heading">Best Configurations</h2>
+            </div>
+
+            <p className="serving-hint">
+                Every quantization, context length{model.isMoE ? ' and MoE offload mode' : ''} your runtime and GPUs support,
+                keeping only setups no other one beats on quality, speed and context at once.
+            </p>
+
+            {front.length === 0 ? (
+                <div className="table-empty" role="status">No configuration of {model.name} runs on this GPU setup.</div>
+            ) : (
+                <div className="table-scroll" tabIndex={0} role="region" aria-label="Pareto-optimal configurations">
+                    <table aria-label="Quality, speed and context trade-offs">
+                        <thead>
+                            <tr>
+                                <th scope="col">Quantization</th>
+                                <th scope="col">Context</th>
+                                <th scope="col">Speed</th>
+                                <th scope="col">Quality Loss</th>
+                                <th scope="col">VRAM Needed</th>
+                                <th scope="col"><span className="sr-only">Apply</span></th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {rows.map((config) => {
+                                const current = isCurrent(config);
+                                return (
+                                    <tr
+                                        key={`${formatQuant(config)}-${config.contextLength}-${config.moeOffload}`}
+                                        className={`table-row ${current ? 'optimizer-current' : ''}`}
+                                    >
+                                        <td>
+                                            <div className="table-model-name">
+                                                {formatQuant(config)}
+                                                {config.moeOffload === 'experts' && <span className="moe-mini">Experts</span>}
+                                            </div>
+                                        </td>
+                                        <td className="table-params">{formatContext(config.contextLength)}</td>
+                                        <td className="table-params">
+                                            ~{config.tokensPerSec} tok/s
+                                            {config.verdict === 'partial_offload' && <span className="table-model-org"> (offload)</span>}
+                                        </td>
+                                        <td className="table-params">
+                                            +{config.qualityLoss.perplexityDeltaPct}% PPL
+                                            <span className="table-model-org"> · KLD {config.qualityLoss.kld}</span>
+                                        </td>
+                                        <td className="table-vram">{config.totalRequiredGB.toFixed(1)} GB</td>
+                                        <td>
+                                            <button
+                                                className={`context-btn ${current ? 'active' : ''}`}
+                                                onClick={() => onApply(config)}
+                                                disabled={current}
+                                                aria-label={`Apply ${formatQuant(config)} at ${formatContext(config.contextLength)} context`}
+                                            >
+                                                {current ? <Check size={14} aria-hidden="true" /> : 'Apply'}
+                                            </button>
+                                        </td>
+                                    </tr>
+                                );
+                            })}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+
+            {front.length > COLLAPSED_ROWS && (
+                <button className="context-btn optimizer-more" onClick={() => setShowAll(!showAll)} aria-expanded={showAll}>
+                    {showAll ? 'Show fewer' : `Show all ${front.length}`}
+                </button>
+            )}
+        </motion.section>
+    );
+}
@@ -1,5 +1,5 @@
 import { motion } from 'framer-motion';
-import { Shield, Gauge, Layers, Lightbulb, AlertTriangle, Zap, Clock } from 'lucide-react';
+import { Shield, Gauge, Layers, Lightbulb, AlertTriangle, Zap, Clock, FileText, Timer } from 'lucide-react';
 import type { CalculationResult } from '../types';
 
 interface ResultsDashboardProps {
@@ -12,6 +12,8 @@ const VERDICT_STYLES: Record<string, { color: string; bg: string; glow: string }
     partial_offload: { color: '#f59e0b', bg: 'rgba(245,158,11,0.1)', glow: '0 0 40px rgba(245,158,11,0.3)' },
     cpu_only: { color: '#f97316', bg: 'rgba(249,115,22,0.1)', glow: '0 0 40px rgba(249,115,22,0.3)' },
     cannot_run: { color: '#ef4444', bg: 'rgba(239,68,68,0.1)', glow: '0 0 40px rgba(239,68,68,0.3)' },
+    likely_fits: { color: '#84cc16', bg: 'rgba(132,204,22,0.1)', glow: '0 0 40px rgba(132,204,22,0.3)' },
+    borderline: { color: '#eab308', bg: 'rgba(234,179,8,0.1)', glow: '0 0 40px rgba(234,179,8,0.3)' },
 };
 
 const SPEED_LABELS: Record<string, { label: string; color: string }> = {
@@ -22,14 +24,47 @@ const SPEED_LABELS: Record<string, { label: string; color: string }> = {
 };
 
 export default function ResultsDashboard({ result, modelName }: ResultsDashboardProps) {
-    const style = VERDICT_STYLES[result.verdict];
+    const style = VERDICT_STYLES[result.fitConfidence === 'confident' ? result.verdict : result.fitConfidence];
     const speed = SPEED_LABELS[result.speedCategory];
 
-    const totalBar = Math.max(result.totalRequiredGB, result.availableVRAM + result.availableRAM);
+    const { totalRequiredRange, tokensPerSecRange } = result;
+    const totalBar = Math.max(
+        totalRequiredRange.high,
+        result.availableVRAM + result.reservedVRAMGB + result.availableRAM + result.reservedRAMGB
+    );
     const modelPct = (result.modelMemoryGB / totalBar) * 100;
     const kvPct = (result.kvCacheMemoryGB / totalBar) * 100;
     const overheadPct = (result.systemOverheadGB / totalBar) * 100;
+    const computeBufferPct = (result.computeBufferGB / totalBar) * 100;
+    const draftPct = ((result.speculative?.draftMemoryGB ?? 0) / totalBar) * 100;
+    const encoderPct = (result.encoderMemoryGB / totalBar) * 100;
     const vramPct = (result.availableVRAM / totalBar) * 100;
+    const rangeLowPct = (totalRequiredRange.low / totalBar) * 100;
+    const rangeHighPct = (totalRequiredRange.high / totalBar) * 100;
+    // Reserves sit past what the runtime can use: VRAM after the VRAM marker, RAM at the end
+    const reservedVRAMPct = (result.reservedVRAMGB / totalBar) * 100;
+    const reservedRAMPct = (result.reservedRAMGB / totalBar) * 100;
+    const reservedRAMLeftPct = ((result.availableVRAM + result.reservedVRAMGB + result.availableRAM) / totalBar) * 100;
+
+    // Which device each drawn layer block lands on (-1 = CPU). Layer split
+    // fills GPUs in order; tensor/row split shares every GPU layer.
+    const isMultiGPU = result.devices.length > 1;
+    const layerOwners: number[] = [];
+    if (result.splitMode === 'layer') {
+        result.devices.forEach((d, i) => layerOwners.push(...Array(d.layers).fill(i)));
+    } else {
+        layerOwners.push(...Array(result.layersOnGPU).fill(0));
+    }
+    // With expert offload every layer's attention is on GPU; the last blocks
+    // stand for layers whose routed experts stay in RAM
+    if (result.expertOffload) layerOwners.length = Math.min(layerOwners.length, result.layersOnGPU);
+    const layerBlockClass = (owner: number | undefined) => {
+        if (owner === undefined) return 'cpu';
+        if (!isMultiGPU) return 'gpu';
+        return result.splitMode === 'layer' ? `gpu device-${owner % 4}` : 'gpu split';
+    };
+
+    const reservedRAMNote = result.reservedRAMGB > 0 ? `${result.reservedRAMGB.toFixed(1)} GB of RAM kept for the OS and apps` : null;
 
     return (
         <motion.section
@@ -50,14 +85,15 @@ export default function ResultsDashboard({ result, modelName }: ResultsDashboard
                 animate={{ scale: 1, opacity: 1 }}
                 transition={{ type: 'spring', stiffness: 200, delay: 0.1 }}
                 role="status"
-                aria-label={`Verdict: ${result.verdictLabel} for ${modelName}`}
+                aria-label={`Verdict: ${result.verdictLabel} for ${modelName}${reservedRAMNote ? `, ${reservedRAMNote}` : ''}`}
             >
                 <span className="verdict-emoji" aria-hidden="true">{result.verdictEmoji}</span>
                 <div className="verdict-text">
                     <span className="verdict-label" style={{ color: style.color }}>
                         {result.verdictLabel}
                     </span>
-                    <span className="verdict-model">{modelName}</span>
+                    <span className="verdict-model">{modelName} · {result.runtime.name}</span>
+                    {reservedRAMNote && <span className="verdict-model">With {reservedRAMNote}</span>}
                 </div>
             </motion.div>
 
@@ -67,7 +103,9 @@ export default function ResultsDashboard({ result, modelName }: ResultsDashboard
                     <div className="stat-icon" aria-hidden="true"><Shield size={18} /></div>
                     <div className="stat-content">
                         <span className="stat-value">{result.totalRequiredGB.toFixed(1)} GB</span>
-                        <span className="stat-label">Total Required</span>
+                        <span className="stat-label">
+                            Total Required ({totalRequiredRange.low.toFixed(1)}–{totalRequiredRange.high.toFixed(1)})
+                        </span>
                     </div>
                 </motion.div>
 
@@ -77,7 +115,27 @@ export default function ResultsDashboard({ result, modelName }: ResultsDashboard
                         <span className="stat-value" style={{ color: speed.color }}>
                             ~{result.estimatedTokensPerSec} tok/s
                         </span>
-                        <span className="stat-label">Speed ({speed.label})</span>
+                        <span className="stat-label">
+                            Speed ({speed.label}, {tokensPerSecRange.low}–{tokensPerSecRange.high})
+                        </span>
+                    </div>
+                </motion.div>
+
+                <motion.div className="stat-card" initial={{ opacity: 0, y: 10 }} animate={{ opacity: 1, y: 0 }} transition={{ delay: 0.27 }} role="listitem">
+                    <div className="stat-icon" aria-hidden="true"><FileText size={18} /></div>
+                    <div className="stat-content">
+                        <span className="stat-value">~{result.promptTokensPerSec.toLocaleString()} tok/s</span>
+                        <span className="stat-label">Prompt Processing{result.weightStreaming ? ' (Weights Streamed)' : ''}</span>
+                    </div>
+                </motion.div>
+
+                <motion.div className="stat-card" initial={{ opacity: 0, y: 10 }} animate={{ opacity: 1, y: 0 }} transition={{ delay: 0.28 }} role="listitem">
+                    <div className="stat-icon" aria-hidden="true"><Timer size={18} /></div>
+                    <div className="stat-content">
+                        <span className="stat-value">
+                            ~{result.timeToFirstTokenSec < 10 ? result.timeToFirstTokenSec.toFixed(1) : Math.round(result.timeToFirstTokenSec)}s
+                        </span>
+                        <span className="stat-label">First Token ({result.promptTokens.toLocaleString()} prompt)</span>
                     </div>
                 </motion.div>
 
@@ -104,7 +162,7 @@ export default function ResultsDashboard({ result, modelName }: ResultsDashboard
                 initial={{ opacity: 0 }}
                 animate={{ opacity: 1 }}
                 transition={{ delay: 0.4 }}
-                aria-label={`Memory breakdown: model weights ${result.modelMemoryGB.toFixed(1)}GB, KV cache ${result.kvCacheMemoryGB.toFixed(2)}GB, overhead ${result.systemOverheadGB}GB. Available VRAM: ${result.availableVRAM.toFixed(1)}GB`}
+                aria-label={`Memory breakdown: model weights ${result.modelMemoryGB.toFixed(1)}GB, KV cache ${result.kvCacheMemoryGB.toFixed(2)}GB, ${result.runtime.name} overhead ${result.systemOverheadGB}GB, compute buffer ${result.computeBufferGB.toFixed(2)}GB. Available VRAM: ${result.availableVRAM.toFixed(1)}GB after ${result.reservedVRAMGB.toFixed(1)}GB reserved, available RAM: ${result.availableRAM.toFixed(1)}GB after ${result.reservedRAMGB.toFixed(1)}GB reserved`}
             >
                 <h3><Clock size={16} aria-hidden="true" /> Memory Breakdown</h3>
                 <div className="memory-bar-container" role="img" aria-label={`Memory usage bar: ${result.totalRequiredGB.toFixed(1)}GB required out of ${result.availableVRAM.toFixed(1)}GB VRAM available`}>
@@ -130,7 +188,43 @@ export default function ResultsDashboard({ result, modelName }: ResultsDashboard
                             animate={{ width: `${overheadPct}%` }}
                             transition={{ duration: 0.8, delay: 0.7 }}
                         />
+                        <motion.div
+                            className="memory-segment compute-buffer"
+                            style={{ width: `${computeBufferPct}%` }}
+                            initial={{ width: 0 }}
+                            animate={{ width: `${computeBufferPct}%` }}
+                            transition={{ duration: 0.8, delay: 0.75 }}
+                        />
+                        {result.speculative && (
+                            <motion.div
+                                className="memory-segment draft-model"
+                                style={{ width: `${draftPct}%` }}
+                                initial={{ width: 0 }}
+                                animate={{ width: `${draftPct}%` }}
+                                transition={{ duration: 0.8, delay: 0.8 }}
+                            />
+                        )}
+                        {result.encoderMemoryGB > 0 && (
+                            <motion.div
+                                className="memory-segment encoders"
+                                style={{ width: `${encoderPct}%` }}
+                                initial={{ width: 0 }}
+                                animate={{ width: `${encoderPct}%` }}
+                                transition={{ duration: 0.8, delay: 0.9 }}
+                            />
+                        )}
                     </div>
+                    <div
+                        className="memory-range"
+                        style={{ left: `${rangeLowPct}%`, width: `${rangeHighPct - rangeLowPct}%` }}
+                        aria-hidden="true"
+                    />
+                    {result.reservedVRAMGB > 0 && (
+                        <div className="memory-reserved" style={{ left: `${vramPct}%`, width: `${reservedVRAMPct}%` }} aria-hidden="true" />
+                    )}
+                    {result.reservedRAMGB > 0 && (
+                        <div className="memory-reserved" style={{ left: `${reservedRAMLeftPct}%`, width: `${reservedRAMPct}%` }} aria-hidden="true" />
+                    )}
                     <div className="vram-marker" style={{ left: `${vramPct}%` }} aria-hidden="true">
                         <div className="vram-line" />
                         <span className="vram-label">VRAM: {result.availableVRAM.toFixed(1)}GB</span>
@@ -138,9 +232,44 @@ export default function ResultsDashboard({ result, modelName }: ResultsDashboard
                 </div>
                 <div className="memory-legend" aria-hidden="true">
                     <span className="legend-item"><span className="legend-dot model-weights" /> Model Weights ({result.modelMemoryGB.toFixed(1)} GB)</span>
-                    <span className="legend-item"><span className="legend-dot kv-cache" /> KV Cache ({result.kvCacheMemoryGB.toFixed(2)} GB)</span>
-                    <span className="legend-item"><span className="legend-dot overhead" /> Overhead ({result.systemOverheadGB} GB)</span>
+                    <span className="legend-item"><span className="legend-dot kv-cache" /> KV Cache {result.kvCache.typeK}/{result.kvCache.typeV} ({result.kvCacheMemoryGB.toFixed(2)} GB)</span>
+                    <span className="legend-item"><span className="legend-dot overhead" /> {result.runtime.name} Overhead ({result.systemOverheadGB} GB)</span>
+                    <span className="legend-item">
+                        <span className="legend-dot compute-buffer" /> Compute Buffer ({result.computeBufferGB.toFixed(2)} GB{result.attentionScoresGB > 0 ? `, ${result.attentionScoresGB.toFixed(2)} GB attention scores` : ''})
+                    </span>
+                    {result.speculative && (
+                        <span className="legend-item"><span className="legend-dot draft-model" /> Draft {result.speculative.draftModelName} ({result.speculative.draftMemoryGB.toFixed(1)} GB)</span>
+                    )}
+                    {result.encoderMemoryGB > 0 && (
+                        <span className="legend-item"><span className="legend-dot encoders" /> Vision/Audio Encoders ({result.encoderMemoryGB.toFixed(2)} GB)</span>
+                    )}
+                    {result.reservedVRAMGB > 0 && (
+                        <span className="legend-item"><span className="legend-dot reserved" /> Reserved VRAM — Displays &amp; Apps ({result.reservedVRAMGB.toFixed(1)} GB)</span>
+                    )}
+                    {result.reservedRAMGB > 0 && (
+                        <span className="legend-item"><span className="legend-dot reserved" /> Reserved RAM — OS &amp; Apps ({result.reservedRAMGB.toFixed(1)} GB)</span>
+                    )}
                 </div>
+                {reservedRAMNote && (
+                    <p className="memory-note">
+                        Offload and CPU-only verdicts use {result.availableRAM.toFixed(1)} of {(result.availableRAM + result.reservedRAMGB).toFixed(1)} GB of RAM; set the OS reserve under Reserved Memory
+                    </p>
+                )}
+                {result.fitConfidence !== 'confident' && (
+                    <p className="memory-note">
+                        Estimate spans {totalRequiredRange.low.toFixed(1)}–{totalRequiredRange.high.toFixed(1)} GB (dashed) depending on the quant mix and runtime overhead; {result.availableVRAM.toFixed(1)} GB of VRAM falls inside that range
+                    </p>
+                )}
+                {result.mediaTokens > 0 && (
+                    <p className="memory-note">
+                        KV cache includes ~{result.mediaTokens.toLocaleString()} image/audio tokens per request
+                    </p>
+                )}
+                {result.expertOffload && (
+                    <p className="memory-note">
+                        Attention {result.expertOffload.attentionGB.toFixed(1)} GB · Shared experts {result.expertOffload.sharedExpertsGB.toFixed(1)} GB · Routed experts {result.expertOffload.routedExpertsGB.toFixed(1)} GB ({result.expertOffload.routedOnCPUGB.toFixed(1)} GB in RAM)
+                    </p>
+                )}
             </motion.div>
 
             {/* Layer Offloading Visualization */}
@@ -155,14 +284,13 @@ export default function ResultsDashboard({ result, modelName }: ResultsDashboard
                     <div
                         className="layer-bar"
                         role="img"
-                        aria-label={`${result.layersOnGPU} of ${result.totalLayers} layers on GPU, ${result.layersOnCPU} on CPU`}
+                        aria-label={`${result.layersOnGPU} of ${result.totalLayers} layers on GPU, ${result.layersOnCPU} on CPU${isMultiGPU ? `: ${result.devices.map((d) => `${d.name} ${d.layers}`).join(', ')}` : ''}`}
                     >
                         {Array.from({ length: Math.min(result.totalLayers, 80) }).map((_, i) => {
-                            const isGPU = i < result.layersOnGPU;
                             return (
                                 <motion.div
                                     key={i}
-                                    className={`layer-block ${isGPU ? 'gpu' : 'cpu'}`}
+                                    className={`layer-block ${layerBlockClass(layerOwners[i])}`}
                                     initial={{ opacity: 0, scale: 0 }}
                                     animate={{ opacity: 1, scale: 1 }}
                                     transition={{ delay: 0.7 + i * 0.01 }}
@@ -172,9 +300,42 @@ export default function ResultsDashboard({ result, modelName }: ResultsDashboard
                         })}
                     </div>
                     <div className="layer-legend" aria-hidden="true">
-                        <span className="legend-item"><span className="legend-dot gpu-dot" /> GPU ({result.layersOnGPU})</span>
-                        <span className="legend-item"><span className="legend-dot cpu-dot" /> CPU ({result.layersOnCPU})</span>
+                        {isMultiGPU && result.splitMode === 'layer' ? (
+                            result.devices.map((d, i) => (
+                                <span key={i} className="legend-item">
+                                    <span className={`legend-dot gpu-dot device-${i % 4}`} /> GPU {i}: {d.name} ({d.layers})
+                                </span>
+                            ))
+                        ) : (
+                            <span className="legend-item">
+                                <span className={`legend-dot gpu-dot ${isMultiGPU ? 'split' : ''}`} />
+                                {isMultiGPU ? `${result.splitMode === 'row' ? 'Row' : 'Tensor'} split across ${result.devices.length} GPUs` : 'GPU'} ({result.layersOnGPU})
+                            </span>
+                        )}
+                        <span className="legend-item">
+                            <span className="legend-dot cpu-dot" /> {result.expertOffload ? 'Experts in RAM' : 'CPU'} ({result.layersOnCPU})
+                        </span>
                     </div>
+                    {result.embeddingGB > 0 && (
+                        <p className="memory-note">
+                            Output head {result.outputHeadGB > 0 ? `${result.outputHeadGB.toFixed(2)} GB ` : ''}on {result.outputOnGPU ? 'GPU' : 'CPU'}
+                            {' '}· Token embedding {result.embeddingGB.toFixed(2)} GB in {result.runtime.embeddingsInRAM ? 'RAM' : 'VRAM'}
+                        </p>
+                    )}
+                    {(isMultiGPU || result.devices.some((d) => d.linkBound)) && (
+                        <ul className="device-list" aria-label="Memory per GPU">
+                            {result.devices.map((d, i) => (
+                                <li key={i} className={`device-row ${d.isBottleneck || d.linkBound ? 'bottleneck' : ''}`}>
+                                    <span className={`vendor-dot ${d.vendor}`} aria-hidden="true" />
+                                    <span className="gpu-name">GPU {i}: {d.name}</span>
+                                    <span className="device-mem">{d.link}</span>
+                                    <span className="device-mem">{d.memoryGB.toFixed(1)} / {d.capacityGB.toFixed(1)} GB</span>
+                                    {d.isBottleneck && <span className="device-badge">Bottleneck</span>}
+                                    {d.linkBound && <span className="device-badge link-bound">Link-Bound</span>}
+                                </li>
+                            ))}
+                        </ul>
+                    )}
                 </motion.div>
             )}
 
@@ -0,0 +1,124 @@
+import { motion } from 'framer-motion';
+import { Users, Gauge, Database, UserCheck, Cpu } from 'lucide-react';
+import type { ServingConfig, ServingResult } from '../types';
+
+interface ServingPanelProps {
+    serving: ServingConfig | null;
+    result?: ServingResult;
+    onServingChange: (serving: ServingConfig | null) => void;
+}
+
+const DEFAULT_SERVING: ServingConfig = {
+    concurrentSequences: 8,
+    avgPromptTokens: 1024,
+    avgOutputTokens: 512,
+    maxBatchSize: 8,
+};
+
+const FIELDS: { key: keyof ServingConfig; label: string; min: number; max: number }[] = [
+    { key: 'concurrentSequences', label: 'Concurrent users', min: 1, max: 1024 },
+    { key: 'maxBatchSize', label: 'Max batch size', min: 1, max: 1024 },
+    { key: 'avgPromptTokens', label: 'Avg prompt tokens', min: 1, max: 1048576 },
+    { key: 'avgOutputTokens', label: 'Avg output tokens', min: 1, max: 1048576 },
+];
+
+export default function ServingPanel({ serving, result, onServingChange }: ServingPanelProps) {
+    const overCapacity = result ? result.activeSequences > result.maxConcurrency : false;
+
+    return (
+        <motion.section
+            className="card serving-panel"
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: 0.3 }}
+            aria-labelledby="serving-heading"
+        >
+            <div className="card-header">
+                <Users size={20} aria-hidden="true" />
+                <h2 id="serving-heading">Serving Mode</h2>
+                <button
+                    className={`count-btn serving-toggle ${serving ? 'active' : ''}`}
+                    onClick={() => onServingChange(serving ? null : DEFAULT_SERVING)}
+                    aria-pressed={!!serving}
+                >
+                    {serving ? 'On' : 'Off'}
+                </button>
+            </div>
+
+            {!serving && (
+                <p className="serving-hint">
+                    Size a shared inference server: KV cache for every active sequence, per-user and aggregate throughput.
+                </p>
+            )}
+
+            {serving && (
+                <>
+                    <div className="serving-inputs">
+                        {FIELDS.map((field) => (
+                            <div key={field.key} className="form-group">
+                                <label htmlFor={`serving-${field.key}`}>{field.label}</label>
+                                <input
+                                    id={`serving-${field.key}`}
+                                    type="number"
+                                    className="input-field"
+                                    min={field.min}
+                                    max={field.max}
+                                    value={serving[field.key]}
+                                    onChange={(e) => {
+                                        const value = parseInt(e.target.value);
+                                        if (value >= field.min) onServingChange({ ...serving, [field.key]: value });
+                                    }}
+                                />
+                            </div>
+                        ))}
+                    </div>
+
+                    {result && (
+                        <div className="stats-grid" role="list" aria-label="Serving estimates">
+                            <div className="stat-card" role="listitem">
+                                <div className="stat-icon" aria-hidden="true"><Gauge size={18} /></div>
+                                <div className="stat-content">
+                                    <span className="stat-value">~{result.aggregateTokensPerSec} tok/s</span>
+                                    <span className="stat-label">Aggregate ({result.boundBy}-bound)</span>
+                                </div>
+                            </div>
+                            <div className="stat-card" role="listitem">
+                                <div className="stat-icon" aria-hidden="true"><UserCheck size={18} /></div>
+                                <div className="stat-content">
+                                    <span className="stat-value">~{result.perUserTokensPerSec} tok/s</span>
+                                    <span className="stat-label">
+                                        Per User{result.queuedSequences > 0 ? ` (${result.queuedSequences} queued)` : ''}
+                                    </span>
+                                </div>
+                            </div>
+                            <div className="stat-card" role="listitem">
+                                <div className="stat-icon" aria-hidden="true"><Database size={18} /></div>
+                                <div className="stat-content">
+                                    <span className="stat-value">{result.kvCacheTotalGB.toFixed(1)} GB</span>
+                                    <span className="stat-label">
+                                        KV for {result.activeSequences} × {result.tokensPerSequence.toLocaleString()} tokens
+                                    </span>
+                                </div>
+                            </div>
+                            <div className="stat-card" role="listitem">
+                                <div className="stat-icon" aria-hidden="true"><Cpu size={18} /></div>
+                                <div className="stat-content">
+                                    <span className="stat-value" style={overCapacity ? { color: 'var(--red)' } : undefined}>
+                                        {result.maxConcurrency}
+                                    </span>
+                                    <span className="stat-label">Max Sequences in VRAM</span>
+                                </div>
+                            </div>
+                        </div>
+                    )}
+
+                    {result && overCapacity && (
+                        <p className="serving-hint" role="alert">
+                            Only {result.maxConcurrency} sequences of {result.tokensPerSequence.toLocaleString()} tokens fit next to the weights — lower the batch size or quantize the KV cache.
+                        </p>
+                    )}
+                </>
+            )}
+        </motion.section>
+    );
+}
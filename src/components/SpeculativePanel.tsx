@@ -0,0 +1,221 @@
+import { useState, useCallback, useRef } from 'react';
+import { motion } from 'framer-motion';
+import { Rocket, Search, Gauge, Repeat, Database, Zap } from 'lucide-react';
+import type { ModelConfig, SpeculativeConfig, SpeculativeResult } from '../types';
+import { searchHuggingFaceModels } from '../services/huggingFaceService';
+
+interface SpeculativePanelProps {
+    targetModel: ModelConfig;
+    popularModels: ModelConfig[];
+    speculative: SpeculativeConfig | null;
+    result?: SpeculativeResult;
+    onSpeculativeChange: (speculative: SpeculativeConfig | null) => void;
+}
+
+const DEFAULT_DRAFT_TOKENS = 5;
+const DEFAULT_ACCEPTANCE_RATE = 0.7;
+
+/**
+ * Smallest popular model sharing the target's tokenizer, else the smallest one
+ */
+function pickDefaultDraft(target: ModelConfig, candidates: ModelConfig[]): ModelConfig | undefined {
+    const sameFamily = candidates.filter((m) => target.tokenizer && m.tokenizer === target.tokenizer);
+    const pool = sameFamily.length > 0 ? sameFamily : candidates;
+    return [...pool].sort((a, b) => a.params - b.params)[0];
+}
+
+export default function SpeculativePanel({
+    targetModel,
+    popularModels,
+    speculative,
+    result,
+    onSpeculativeChange,
+}: SpeculativePanelProps) {
+    const [searchQuery, setSearchQuery] = useState('');
+    const [searchResults, setSearchResults] = useState<ModelConfig[]>([]);
+    const [isSearching, setIsSearching] = useState(false);
+    const debounceRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+    const handleSearch = useCallback((query: string) => {
+        setSearchQuery(query);
+        if (debounceRef.current) clearTimeout(debounceRef.current);
+
+        if (query.length < 2) {
+            setSearchResults([]);
+            setIsSearching(false);
+            return;
+        }
+
+        setIsSearching(true);
+        debounceRef.current = setTimeout(async () => {
+            const results = await searchHuggingFaceModels(query);
+            setSearchResults(results);
+            setIsSearching(false);
+        }, 500);
+    }, []);
+
+    // Drafts only help when much smaller than the target
+    const candidates = popularModels.filter((m) => m.id !== targetModel.id && m.params < targetModel.params / 2);
+    const draftOptions = [...candidates, ...searchResults.filter((m) => m.id !== targetModel.id)];
+
+    const handleToggle = () => {
+        if (speculative) {
+            onSpeculativeChange(null);
+            return;
+        }
+        const draftModel = pickDefaultDraft(targetModel, candidates);
+        if (!draftModel) return;
+        onSpeculativeChange({
+            draftModel,
+            draftTokens: DEFAULT_DRAFT_TOKENS,
+            acceptanceRate: DEFAULT_ACCEPTANCE_RATE,
+        });
+    };
+
+    return (
+        <motion.section
+            className="card speculative-panel"
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: 0.3 }}
+            aria-labelledby="speculative-heading"
+        >
+            <div className="card-header">
+                <Rocket size={20} aria-hidden="true" />
+                <h2 id="speculative-heading">Speculative Decoding</h2>
+                <button
+                    className={`count-btn serving-toggle ${speculative ? 'active' : ''}`}
+                    onClick={handleToggle}
+                    disabled={!speculative && candidates.length === 0}
+                    aria-pressed={!!speculative}
+                >
+                    {speculative ? 'On' : 'Off'}
+                </button>
+            </div>
+
+            {!speculative && (
+                <p className="serving-hint">
+                    Pair {targetModel.name} with a small draft model that proposes tokens for the big one to verify in a single pass.
+                </p>
+            )}
+
+            {speculative && (
+                <>
+                    <fieldset className="form-group fieldset-reset">
+                        <legend className="form-legend">
+                            Draft Model
+                            <span className="label-value">{speculative.draftModel.name}</span>
+                        </legend>
+                        <div className="context-presets" role="radiogroup" aria-label="Draft model">
+                            {draftOptions.map((model) => (
+                                <button
+                                    key={model.id}
+                                    className={`context-btn ${speculative.draftModel.id === model.id ? 'active' : ''}`}
+                                    onClick={() => onSpeculativeChange({ ...speculative, draftModel: model })}
+                                    role="radio"
+                                    aria-checked={speculative.draftModel.id === model.id}
+                                >
+                                    {model.name}
+                                </button>
+                            ))}
+                        </div>
+                    </fieldset>
+
+                    <div className="form-group search-group">
+                        <div className="search-input-wrap">
+                            <Search size={16} aria-hidden="true" />
+                            <input
+                                type="search"
+                                placeholder="Search Hugging Face for a draft model..."
+                                value={searchQuery}
+                                onChange={(e) => handleSearch(e.target.value)}
+                                className="input-field"
+                                aria-label="Search Hugging Face for a draft model"
+                                role="searchbox"
+                            />
+                            {isSearching && (
+                                <div className="search-spinner" role="status" aria-label="Searching">
+                                    <span className="sr-only">Searching...</span>
+                                </div>
+                            )}
+                        </div>
+                    </div>
+
+                    <div className="serving-inputs">
+                        <div className="form-group">
+                            <label htmlFor="speculative-draft-tokens">Draft tokens per step</label>
+                            <input
+                                id="speculative-draft-tokens"
+                                type="number"
+                                className="input-field"
+                                min={1}
+                                max={32}
+                                value={speculative.draftTokens}
+                                onChange={(e) => {
+                                    const value = parseInt(e.target.value);
+                                    if (value >= 1 && value <= 32) onSpeculativeChange({ ...speculative, draftTokens: value });
+                                }}
+                            />
+                        </div>
+                        <div className="form-group">
+                            <label htmlFor="speculative-acceptance">Acceptance rate (%)</label>
+                            <input
+                                id="speculative-acceptance"
+                                type="number"
+                                className="input-field"
+                                min={0}
+                                max={100}
+                                value={Math.round(speculative.acceptanceRate * 100)}
+                                onChange={(e) => {
+                                    const value = parseInt(e.target.value);
+                                    if (value >= 0 && value <= 100) onSpeculativeChange({ ...speculative, acceptanceRate: value / 100 });
+                                }}
+                            />
+                        </div>
+                    </div>
+
+                    {result && (
+                        <div className="stats-grid" role="list" aria-label="Speculative decoding estimates">
+                            <div className="stat-card" role="listitem">
+                                <div className="stat-icon" aria-hidden="true"><Gauge size={18} /></div>
+                                <div className="stat-content">
+                                    <span className="stat-value" style={result.speedup < 1 ? { color: 'var(--red)' } : undefined}>
+                                        ~{result.effectiveTokensPerSec} tok/s
+                                    </span>
+                                    <span className="stat-label">Effective ({result.speedup.toFixed(2)}× speedup)</span>
+                                </div>
+                            </div>
+                            <div className="stat-card" role="listitem">
+                                <div className="stat-icon" aria-hidden="true"><Repeat size={18} /></div>
+                                <div className="stat-content">
+                                    <span className="stat-value">{result.tokensPerStep.toFixed(1)}</span>
+                                    <span className="stat-label">Tokens per Pass</span>
+                                </div>
+                            </div>
+                            <div className="stat-card" role="listitem">
+                                <div className="stat-icon" aria-hidden="true"><Zap size={18} /></div>
+                                <div className="stat-content">
+                                    <span className="stat-value">~{result.draftTokensPerSec} tok/s</span>
+                                    <span className="stat-label">Draft Speed</span>
+                                </div>
+                            </div>
+                            <div className="stat-card" role="listitem">
+                                <div className="stat-icon" aria-hidden="true"><Database size={18} /></div>
+                                <div className="stat-content">
+                                    <span className="stat-value">{result.draftMemoryGB.toFixed(1)} GB</span>
+                                    <span className="stat-label">Draft Weights + KV</span>
+                                </div>
+                            </div>
+                        </div>
+                    )}
+
+                    {result?.vocabMismatch && (
+                        <p className="serving-hint" role="alert">
+                            {result.vocabMismatch} The target will reject every drafted token.
+                        </p>
+                    )}
+                </>
+            )}
+        </motion.section>
+    );
+}
@@ -0,0 +1,234 @@
+import { motion } from 'framer-motion';
+import { GraduationCap, Layers, Database } from 'lucide-react';
+import type { TrainingConfig, TrainingResult, FineTuneMethod, LoRATargetModule } from '../types';
+import { TRAINING_OPTIMIZER_OPTIONS, LORA_TARGET_MODULES } from '../utils/training';
+
+interface TrainingPanelProps {
+    training: TrainingConfig | null;
+    result?: TrainingResult;
+    onTrainingChange: (training: TrainingConfig | null) => void;
+}
+
+const DEFAULT_TRAINING: TrainingConfig = {
+    method: 'qlora',
+    optimizer: 'adamw_8bit',
+    batchSize: 1,
+    sequenceLength: 2048,
+    gradientCheckpointing: true,
+    loraRank: 16,
+    loraTargets: LORA_TARGET_MODULES,
+};
+
+const METHODS: { value: FineTuneMethod; label: string }[] = [
+    { value: 'full', label: 'Full' },
+    { value: 'lora', label: 'LoRA' },
+    { value: 'qlora', label: 'QLoRA (4-bit)' },
+];
+
+const FIELDS: { key: 'batchSize' | 'sequenceLength' | 'loraRank'; label: string; min: number; max: number; lora?: boolean }[] = [
+    { key: 'batchSize', label: 'Micro-batch per GPU', min: 1, max: 256 },
+    { key: 'sequenceLength', label: 'Sequence length', min: 1, max: 1048576 },
+    { key: 'loraRank', label: 'LoRA rank', min: 1, max: 1024, lora: true },
+];
+
+export default function TrainingPanel({ training, result, onTrainingChange }: TrainingPanelProps) {
+    const isLoRA = training ? training.method !== 'full' : false;
+
+    const toggleTarget = (target: LoRATargetModule) => {
+        if (!training) return;
+        const loraTargets = training.loraTargets.includes(target)
+            ? training.loraTargets.filter((t) => t !== target)
+            : LORA_TARGET_MODULES.filter((t) => t === target || training.loraTargets.includes(t));
+        if (loraTargets.length > 0) onTrainingChange({ ...training, loraTargets });
+    };
+
+    const segments = result
+        ? [
+            { className: 'model-weights', label: isLoRA ? 'Frozen Weights' : 'Weights', gb: result.weightsGB },
+            { className: 'lora-adapter', label: 'LoRA Adapter', gb: result.adapterGB },
+            { className: 'gradients', label: 'Gradients', gb: result.gradientsGB },
+            { className: 'optimizer-states', label: 'Optimizer States', gb: result.optimizerGB },
+            { className: 'activations', label: 'Activations', gb: result.activationsGB },
+            { className: 'overhead', label: 'CUDA Overhead', gb: result.overheadGB },
+        ].filter((s) => s.gb > 0)
+        : [];
+    const totalBar = result ? Math.max(result.totalGB, result.availableVRAM) : 1;
+
+    return (
+        <motion.section
+            className="card training-panel"
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: 0.3 }}
+            aria-labelledby="training-heading"
+        >
+            <div className="card-header">
+                <GraduationCap size={20} aria-hidden="true" />
+                <h2 id="training-heading">Fine-Tuning</h2>
+                <button
+                    className={`count-btn serving-toggle ${training ? 'active' : ''}`}
+                    onClick={() => onTrainingChange(training ? null : DEFAULT_TRAINING)}
+                    aria-pressed={!!training}
+                >
+                    {training ? 'On' : 'Off'}
+                </button>
+            </div>
+
+            {!training && (
+                <p className="serving-hint">
+                    Estimate training memory on this hardware: weights, gradients, optimizer states and activations for full, LoRA or QLoRA fine-tuning.
+                </p>
+            )}
+
+            {training && (
+                <>
+                    <fieldset className="form-group fieldset-reset">
+                        <legend className="form-legend">Method</legend>
+                        <div className="context-presets" role="radiogroup" aria-label="Fine-tuning method">
+                            {METHODS.map((m) => (
+                                <button
+                                    key={m.value}
+                                    className={`context-btn ${training.method === m.value ? 'active' : ''}`}
+                                    onClick={() => onTrainingChange({ ...training, method: m.value })}
+                                    role="radio"
+                                    aria-checked={training.method === m.value}
+                                >
+                                    {m.label}
+                                </button>
+                            ))}
+                        </div>
+                    </fieldset>
+
+                    <fieldset className="form-group fieldset-reset">
+                        <legend className="form-legend">Optimizer</legend>
+                        <div className="context-presets" role="radiogroup" aria-label="Optimizer">
+                            {TRAINING_OPTIMIZER_OPTIONS.map((opt) => (
+                                <button
+                                    key={opt.value}
+                                    className={`context-btn ${training.optimizer === opt.value ? 'active' : ''}`}
+                                    onClick={() => onTrainingChange({ ...training, optimizer: opt.value })}
+                                    role="radio"
+                                    aria-checked={training.optimizer === opt.value}
+                                >
+                                    {opt.label}
+                                </button>
+                            ))}
+                            <button
+                                className={`context-btn ${training.gradientCheckpointing ? 'active' : ''}`}
+                                onClick={() => onTrainingChange({ ...training, gradientCheckpointing: !training.gradientCheckpointing })}
+                                aria-pressed={training.gradientCheckpointing}
+                            >
+                                Gradient checkpointing
+                            </button>
+                        </div>
+                    </fieldset>
+
+                    <div className="serving-inputs">
+                        {FIELDS.filter((field) => !field.lora || isLoRA).map((field) => (
+                            <div key={field.key} className="form-group">
+                                <label htmlFor={`training-${field.key}`}>{field.label}</label>
+                                <input
+                                    id={`training-${field.key}`}
+                                    type="number"
+                                    className="input-field"
+                                    min={field.min}
+                                    max={field.max}
+                                    value={training[field.key]}
+                                    onChange={(e) => {
+                                        const value = parseInt(e.target.value);
+                                        if (value >= field.min && value <= field.max) onTrainingChange({ ...training, [field.key]: value });
+                                    }}
+                                />
+                            </div>
+                        ))}
+                    </div>
+
+                    {isLoRA && (
+                        <fieldset className="form-group fieldset-reset">
+                            <legend className="form-legend">Target Modules</legend>
+                            <div className="context-presets" role="group" aria-label="LoRA target modules">
+                                {LORA_TARGET_MODULES.map((target) => (
+                                    <button
+                                        key={target}
+                                        className={`context-btn ${training.loraTargets.includes(target) ? 'active' : ''}`}
+                                        onClick={() => toggleTarget(target)}
+                                        aria-pressed={training.loraTargets.includes(target)}
+                                    >
+                                        {target}
+                                    </button>
+                                ))}
+                            </div>
+                        </fieldset>
+                    )}
+
+                    {result && (
+                        <>
+                            <div className="stats-grid" role="list" aria-label="Fine-tuning estimates">
+                                <div className="stat-card" role="listitem">
+                                    <div className="stat-icon" aria-hidden="true"><Database size={18} /></div>
+                                    <div className="stat-content">
+                                        <span className="stat-value" style={result.fits ? undefined : { color: 'var(--red)' }}>
+                                            {result.perGPUGB.toFixed(1)} GB
+                                        </span>
+                                        <span className="stat-label">
+                                            {result.gpuCount > 1 ? 'Peak per GPU' : 'Peak Memory'} ({result.fits ? 'fits' : 'exceeds'} {result.smallestGPUGB.toFixed(1)} GB VRAM)
+                                        </span>
+                                    </div>
+                                </div>
+                                {result.gpuCount > 1 && (
+                                    <div className="stat-card" role="listitem">
+                                        <div className="stat-icon" aria-hidden="true"><Database size={18} /></div>
+                                        <div className="stat-content">
+                                            <span className="stat-value">{result.totalGB.toFixed(1)} GB</span>
+                                            <span className="stat-label">Total on {result.gpuCount} GPUs (states sharded)</span>
+                                        </div>
+                                    </div>
+                                )}
+                                <div className="stat-card" role="listitem">
+                                    <div className="stat-icon" aria-hidden="true"><Layers size={18} /></div>
+                                    <div className="stat-content">
+                                        <span className="stat-value">
+                                            {result.trainableParams >= 1
+                                                ? `${result.trainableParams.toFixed(1)}B`
+                                                : `${(result.trainableParams * 1000).toFixed(1)}M`}
+                                        </span>
+                                        <span className="stat-label">Trainable Parameters</span>
+                                    </div>
+                                </div>
+                            </div>
+
+                            <div className="memory-breakdown">
+                                <div
+                                    className="memory-bar-container"
+                                    role="img"
+                                    aria-label={`Training memory bar: ${result.totalGB.toFixed(1)}GB required out of ${result.availableVRAM.toFixed(1)}GB VRAM available`}
+                                >
+                                    <div className="memory-bar">
+                                        {segments.map((s) => (
+                                            <div
+                                                key={s.className}
+                                                className={`memory-segment ${s.className}`}
+                                                style={{ width: `${(s.gb / totalBar) * 100}%` }}
+                                            />
+                                        ))}
+                                    </div>
+                                    <div className="vram-marker" style={{ left: `${(result.availableVRAM / totalBar) * 100}%` }} aria-hidden="true">
+                                        <div className="vram-line" />
+                                        <span className="vram-label">VRAM: {result.availableVRAM.toFixed(1)}GB</span>
+                                    </div>
+                                </div>
+                                <div className="memory-legend" aria-hidden="true">
+                                    {segments.map((s) => (
+                                        <span key={s.className} className="legend-item">
+                                            <span className={`legend-dot ${s.className}`} /> {s.label} ({s.gb.toFixed(2)} GB)
+                                        </span>
+                                    ))}
+                                </div>
+                            </div>
+                        </>
+                    )}
+                </>
+            )}
+        </motion.section>
+    );
+}
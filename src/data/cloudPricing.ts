@@ -0,0 +1,86 @@
+import type { CloudInstance, GPUInfo } from '../types';
+
+/**
+ * Cloud GPUs and typical on-demand prices (USD per hour, late 2025) from
+ * hyperscalers and GPU clouds. Prices move often — every one can be edited
+ * in the cost panel.
+ */
+const A100_80GB: GPUInfo = { name: 'A100 80GB SXM', vendor: 'nvidia', memorySize: 80, memoryType: 'HBM2e', memoryBandwidth: 2039, architecture: 'Ampere', generation: 'Data Center', tdp: 400, fp16Tflops: 312, int8Tops: 624 };
+const H100_80GB: GPUInfo = { name: 'H100 80GB SXM', vendor: 'nvidia', memorySize: 80, memoryType: 'HBM3', memoryBandwidth: 3350, architecture: 'Hopper', generation: 'Data Center', tdp: 700, fp16Tflops: 989, int8Tops: 1979 };
+const L40S: GPUInfo = { name: 'L40S', vendor: 'nvidia', memorySize: 48, memoryType: 'GDDR6', memoryBandwidth: 864, architecture: 'Ada Lovelace', generation: 'Data Center', tdp: 350, fp16Tflops: 362, int8Tops: 733 };
+const RTX_4090: GPUInfo = { name: 'RTX 4090', vendor: 'nvidia', memorySize: 24, memoryType: 'GDDR6X', memoryBandwidth: 1008, architecture: 'Ada Lovelace', generation: 'GeForce 40', tdp: 450, fp16Tflops: 165, int8Tops: 660 };
+
+export const CLOUD_INSTANCES: CloudInstance[] = [
+    // RTX 4090 hosts (community clouds)
+    { id: 'rtx4090-1', provider: 'GPU cloud', gpu: RTX_4090, gpuCount: 1, hourlyPrice: 0.4 },
+    { id: 'rtx4090-2', provider: 'GPU cloud', gpu: RTX_4090, gpuCount: 2, hourlyPrice: 0.8 },
+    { id: 'rtx4090-4', provider: 'GPU cloud', gpu: RTX_4090, gpuCount: 4, hourlyPrice: 1.6 },
+    { id: 'rtx4090-8', provider: 'GPU cloud', gpu: RTX_4090, gpuCount: 8, hourlyPrice: 3.2 },
+
+    // L40S
+    { id: 'l40s-1', provider: 'GPU cloud', gpu: L40S, gpuCount: 1, hourlyPrice: 0.9 },
+    { id: 'l40s-2', provider: 'GPU cloud', gpu: L40S, gpuCount: 2, hourlyPrice: 1.8 },
+    { id: 'l40s-4', provider: 'GPU cloud', gpu: L40S, gpuCount: 4, hourlyPrice: 3.6 },
+    { id: 'l40s-8', provider: 'Hyperscaler', gpu: L40S, gpuCount: 8, hourlyPrice: 14.9 },
+
+    // A100 80GB
+    { id: 'a100-1', provider: 'GPU cloud', gpu: A100_80GB, gpuCount: 1, hourlyPrice: 1.4 },
+    { id: 'a100-2', provider: 'GPU cloud', gpu: A100_80GB, gpuCount: 2, nvlink: true, hourlyPrice: 2.8 },
+    { id: 'a100-4', provider: 'GPU cloud', gpu: A100_80GB, gpuCount: 4, nvlink: true, hourlyPrice: 5.6 },
+    { id: 'a100-8', provider: 'Hyperscaler', gpu: A100_80GB, gpuCount: 8, nvlink: true, hourlyPrice: 32.8 },
+
+    // H100 80GB
+    { id: 'h100-1', provider: 'GPU cloud', gpu: H100_80GB, gpuCount: 1, hourlyPrice: 2.5 },
+    { id: 'h100-2', provider: 'GPU cloud', gpu: H100_80GB, gpuCount: 2, nvlink: true, hourlyPrice: 5.0 },
+    { id: 'h100-4', provider: 'GPU cloud', gpu: H100_80GB, gpuCount: 4, nvlink: true, hourlyPrice: 10.0 },
+    { id: 'h100-8', provider: 'Hyperscaler', gpu: H100_80GB, gpuCount: 8, nvlink: true, hourlyPrice: 55.0 },
+];
+
+/**
+ * Typical street prices (USD) of consumer and workstation cards, new where
+ * still sold and used otherwise. Keys are matched against database names,
+ * the longest contained key wins ("RTX 4070 Ti SUPER" before "RTX 4070").
+ */
+export const GPU_PURCHASE_PRICES: Record<string, number> = {
+    // NVIDIA GeForce
+    'RTX 5090': 2400,
+    'RTX 5080': 1100,
+    'RTX 5070 Ti': 800,
+    'RTX 5070': 580,
+    'RTX 5060 Ti': 450,
+    'RTX 4090': 1900,
+    'RTX 4080 SUPER': 1000,
+    'RTX 4080': 950,
+    'RTX 4070 Ti SUPER': 800,
+    'RTX 4070 Ti': 700,
+    'RTX 4070 SUPER': 600,
+    'RTX 4070': 550,
+    'RTX 4060 Ti': 420,
+    'RTX 4060': 300,
+    'RTX 3090 Ti': 900,
+    'RTX 3090': 750,
+    'RTX 3080 Ti': 550,
+    'RTX 3080': 420,
+    'RTX 3070': 300,
+    'RTX 3060': 250,
+    // NVIDIA workstation
+    'RTX PRO 6000': 8500,
+    'RTX 6000 Ada': 6800,
+    'RTX A6000': 4500,
+    'RTX A5000': 2000,
+    'RTX A4000': 900,
+    // AMD Radeon
+    'RX 9070 XT': 650,
+    'RX 9070': 550,
+    'RX 7900 XTX': 900,
+    'RX 7900 XT': 700,
+    'RX 7800 XT': 480,
+    'RX 7600 XT': 320,
+    'RX 6900 XT': 450,
+    'RX 6800 XT': 400,
+    'Radeon PRO W7900': 3500,
+    // Intel Arc
+    'Arc B580': 250,
+    'Arc A770': 280,
+    'Arc A750': 200,
+};
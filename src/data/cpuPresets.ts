@@ -0,0 +1,47 @@
+import type { CPUInfo, SystemMemoryType } from '../types';
+
+/**
+ * CPU presets with their fastest officially supported memory and every
+ * channel populated. Clocks are typical all-core clocks under load.
+ */
+export const CPU_PRESETS: CPUInfo[] = [
+    // Desktop — dual-channel
+    { name: 'Ryzen 9 9950X', vendor: 'amd', cores: 16, clockGHz: 5.0, avx512: true, amx: false, memoryType: 'DDR5', memoryChannels: 2, memorySpeed: 5600 },
+    { name: 'Ryzen 9 7950X', vendor: 'amd', cores: 16, clockGHz: 4.8, avx512: true, amx: false, memoryType: 'DDR5', memoryChannels: 2, memorySpeed: 5200 },
+    { name: 'Ryzen 7 7800X3D', vendor: 'amd', cores: 8, clockGHz: 4.8, avx512: true, amx: false, memoryType: 'DDR5', memoryChannels: 2, memorySpeed: 5200 },
+    { name: 'Ryzen 9 5950X', vendor: 'amd', cores: 16, clockGHz: 4.0, avx512: false, amx: false, memoryType: 'DDR4', memoryChannels: 2, memorySpeed: 3200 },
+    { name: 'Ryzen 7 5800X3D', vendor: 'amd', cores: 8, clockGHz: 4.3, avx512: false, amx: false, memoryType: 'DDR4', memoryChannels: 2, memorySpeed: 3200 },
+    { name: 'Core Ultra 9 285K', vendor: 'intel', cores: 24, clockGHz: 4.6, avx512: false, amx: false, memoryType: 'DDR5', memoryChannels: 2, memorySpeed: 6400 },
+    { name: 'Core i9-14900K', vendor: 'intel', cores: 24, clockGHz: 4.4, avx512: false, amx: false, memoryType: 'DDR5', memoryChannels: 2, memorySpeed: 5600 },
+    { name: 'Core i7-13700K', vendor: 'intel', cores: 16, clockGHz: 4.2, avx512: false, amx: false, memoryType: 'DDR5', memoryChannels: 2, memorySpeed: 5600 },
+    { name: 'Core i9-12900K', vendor: 'intel', cores: 16, clockGHz: 4.1, avx512: false, amx: false, memoryType: 'DDR4', memoryChannels: 2, memorySpeed: 3200 },
+
+    // Workstation — quad / octa-channel
+    { name: 'Threadripper 7980X', vendor: 'amd', cores: 64, clockGHz: 4.0, avx512: true, amx: false, memoryType: 'DDR5', memoryChannels: 4, memorySpeed: 5200 },
+    { name: 'Threadripper PRO 7995WX', vendor: 'amd', cores: 96, clockGHz: 3.6, avx512: true, amx: false, memoryType: 'DDR5', memoryChannels: 8, memorySpeed: 5200 },
+    { name: 'Threadripper PRO 7975WX', vendor: 'amd', cores: 32, clockGHz: 4.2, avx512: true, amx: false, memoryType: 'DDR5', memoryChannels: 8, memorySpeed: 5200 },
+    { name: 'Threadripper PRO 5995WX', vendor: 'amd', cores: 64, clockGHz: 3.4, avx512: false, amx: false, memoryType: 'DDR4', memoryChannels: 8, memorySpeed: 3200 },
+    { name: 'Threadripper 3970X', vendor: 'amd', cores: 32, clockGHz: 3.8, avx512: false, amx: false, memoryType: 'DDR4', memoryChannels: 4, memorySpeed: 3200 },
+    { name: 'Xeon w9-3495X', vendor: 'intel', cores: 56, clockGHz: 3.4, avx512: true, amx: true, memoryType: 'DDR5', memoryChannels: 8, memorySpeed: 4800 },
+    { name: 'Xeon w7-3465X', vendor: 'intel', cores: 28, clockGHz: 3.6, avx512: true, amx: true, memoryType: 'DDR5', memoryChannels: 8, memorySpeed: 4800 },
+
+    // Server — single socket
+    { name: 'EPYC 9965', vendor: 'amd', cores: 192, clockGHz: 3.0, avx512: true, amx: false, memoryType: 'DDR5', memoryChannels: 12, memorySpeed: 6000 },
+    { name: 'EPYC 9755', vendor: 'amd', cores: 128, clockGHz: 3.4, avx512: true, amx: false, memoryType: 'DDR5', memoryChannels: 12, memorySpeed: 6000 },
+    { name: 'EPYC 9654', vendor: 'amd', cores: 96, clockGHz: 3.0, avx512: true, amx: false, memoryType: 'DDR5', memoryChannels: 12, memorySpeed: 4800 },
+    { name: 'EPYC 9354', vendor: 'amd', cores: 32, clockGHz: 3.5, avx512: true, amx: false, memoryType: 'DDR5', memoryChannels: 12, memorySpeed: 4800 },
+    { name: 'EPYC 7763', vendor: 'amd', cores: 64, clockGHz: 2.8, avx512: false, amx: false, memoryType: 'DDR4', memoryChannels: 8, memorySpeed: 3200 },
+    { name: 'Xeon 6980P', vendor: 'intel', cores: 128, clockGHz: 2.7, avx512: true, amx: true, memoryType: 'DDR5', memoryChannels: 12, memorySpeed: 6400 },
+    { name: 'Xeon Platinum 8480+', vendor: 'intel', cores: 56, clockGHz: 2.9, avx512: true, amx: true, memoryType: 'DDR5', memoryChannels: 8, memorySpeed: 4800 },
+    { name: 'Xeon Gold 6430', vendor: 'intel', cores: 32, clockGHz: 2.6, avx512: true, amx: true, memoryType: 'DDR5', memoryChannels: 8, memorySpeed: 4400 },
+];
+
+// Common officially supported speed of each DDR generation, MT/s
+export const MEMORY_TYPE_SPEEDS: Record<SystemMemoryType, number> = {
+    DDR4: 3200,
+    DDR5: 5600,
+};
+
+export function getCPUPreset(name: string): CPUInfo | undefined {
+    return CPU_PRESETS.find((cpu) => cpu.name === name);
+}
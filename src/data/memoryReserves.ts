@@ -0,0 +1,14 @@
+import type { VRAMReservePreset } from '../types';
+
+/**
+ * VRAM other programs hold on a GPU before the runtime starts: the desktop
+ * compositor, framebuffers and GPU-accelerated apps such as browsers and IDEs.
+ */
+export const VRAM_RESERVE_PRESETS: VRAMReservePreset[] = [
+    { id: 'headless', label: 'Headless', description: 'No display attached — compute only', reservedGB: 0 },
+    { id: 'single_display', label: 'One display', description: 'Desktop on one monitor, light apps', reservedGB: 0.5 },
+    { id: 'multi_monitor', label: 'Multi-monitor desktop', description: 'Several monitors, browser and IDE', reservedGB: 1.5 },
+];
+
+// System RAM kept for the OS and other apps when none is set
+export const DEFAULT_RESERVED_RAM_GB = 4;
@@ -6,6 +6,26 @@ import type { ModelConfig } from '../types';
  */
 export const POPULAR_MODELS: ModelConfig[] = [
     // ─── Small (1-3B) ───
+    {
+        id: 'qwen-2.5-0.5b',
+        name: 'Qwen 2.5 0.5B',
+        organization: 'Alibaba',
+        params: 0.49,
+        layers: 24,
+        numAttentionHeads: 14,
+        numKVHeads: 2,
+        hiddenSize: 896,
+        intermediateSize: 4864,
+        maxContextLength: 32768,
+        vocabSize: 151936,
+        tieWordEmbeddings: true,
+        tokenizer: 'qwen2',
+        isMoE: false,
+        category: 'small',
+        source: 'seed',
+        huggingFaceId: 'Qwen/Qwen2.5-0.5B',
+        description: 'Tiny Qwen, a common draft model for speculative decoding',
+    },
     {
         id: 'tinyllama-1.1b',
         name: 'TinyLlama 1.1B',
@@ -17,6 +37,9 @@ export const POPULAR_MODELS: ModelConfig[] = [
         hiddenSize: 2048,
         intermediateSize: 5632,
         maxContextLength: 2048,
+        vocabSize: 32000,
+        tieWordEmbeddings: false,
+        tokenizer: 'llama2',
         isMoE: false,
         category: 'small',
         source: 'seed',
@@ -34,6 +57,9 @@ export const POPULAR_MODELS: ModelConfig[] = [
         hiddenSize: 2560,
         intermediateSize: 10240,
         maxContextLength: 2048,
+        vocabSize: 51200,
+        tieWordEmbeddings: false,
+        tokenizer: 'phi',
         isMoE: false,
         category: 'small',
         source: 'seed',
@@ -51,6 +77,9 @@ export const POPULAR_MODELS: ModelConfig[] = [
         hiddenSize: 2048,
         intermediateSize: 16384,
         maxContextLength: 8192,
+        vocabSize: 256000,
+        tieWordEmbeddings: true,
+        tokenizer: 'gemma',
         isMoE: false,
         category: 'small',
         source: 'seed',
@@ -68,6 +97,9 @@ export const POPULAR_MODELS: ModelConfig[] = [
         hiddenSize: 2048,
         intermediateSize: 5632,
         maxContextLength: 4096,
+        vocabSize: 100352,
+        tieWordEmbeddings: false,
+        tokenizer: 'stablelm2',
         isMoE: false,
         category: 'small',
         source: 'seed',
@@ -87,6 +119,9 @@ export const POPULAR_MODELS: ModelConfig[] = [
         hiddenSize: 4096,
         intermediateSize: 14336,
         maxContextLength: 131072,
+        vocabSize: 128256,
+        tieWordEmbeddings: false,
+        tokenizer: 'llama3',
         isMoE: false,
         category: 'medium',
         source: 'seed',
@@ -104,6 +139,9 @@ export const POPULAR_MODELS: ModelConfig[] = [
         hiddenSize: 4096,
         intermediateSize: 14336,
         maxContextLength: 32768,
+        vocabSize: 32768,
+        tieWordEmbeddings: false,
+        tokenizer: 'mistral-v3',
         isMoE: false,
         category: 'medium',
         source: 'seed',
@@ -121,12 +159,36 @@ export const POPULAR_MODELS: ModelConfig[] = [
         hiddenSize: 3584,
         intermediateSize: 18944,
         maxContextLength: 131072,
+        vocabSize: 152064,
+        tieWordEmbeddings: false,
+        tokenizer: 'qwen2',
         isMoE: false,
         category: 'medium',
         source: 'seed',
         huggingFaceId: 'Qwen/Qwen2.5-7B',
         description: 'Alibaba\'s latest multilingual model',
     },
+    {
+        id: 'qwen-2.5-vl-7b',
+        name: 'Qwen 2.5 VL 7B',
+        organization: 'Alibaba',
+        params: 7.62,
+        layers: 28,
+        numAttentionHeads: 28,
+        numKVHeads: 4,
+        hiddenSize: 3584,
+        intermediateSize: 18944,
+        maxContextLength: 128000,
+        vocabSize: 152064,
+        tieWordEmbeddings: false,
+        tokenizer: 'qwen2',
+        isMoE: false,
+        encoders: [{ modality: 'vision', params: 0.68, tokensPerItem: 1337 }],
+        category: 'medium',
+        source: 'seed',
+        huggingFaceId: 'Qwen/Qwen2.5-VL-7B-Instruct',
+        description: 'Vision-language model — ~1.3K tokens per 1024px image',
+    },
     {
         id: 'deepseek-r1-7b',
         name: 'DeepSeek-R1 7B',
@@ -138,6 +200,9 @@ export const POPULAR_MODELS: ModelConfig[] = [
         hiddenSize: 3584,
         intermediateSize: 18944,
         maxContextLength: 131072,
+        vocabSize: 152064,
+        tieWordEmbeddings: false,
+        tokenizer: 'qwen2',
         isMoE: false,
         category: 'medium',
         source: 'seed',
@@ -153,8 +218,12 @@ export const POPULAR_MODELS: ModelConfig[] = [
         numAttentionHeads: 16,
         numKVHeads: 16,
         hiddenSize: 3072,
+        headDim: 256,
         intermediateSize: 24576,
         maxContextLength: 8192,
+        vocabSize: 256000,
+        tieWordEmbeddings: true,
+        tokenizer: 'gemma',
         isMoE: false,
         category: 'medium',
         source: 'seed',
@@ -174,6 +243,9 @@ export const POPULAR_MODELS: ModelConfig[] = [
         hiddenSize: 5120,
         intermediateSize: 13824,
         maxContextLength: 4096,
+        vocabSize: 32000,
+        tieWordEmbeddings: false,
+        tokenizer: 'llama2',
         isMoE: false,
         category: 'large',
         source: 'seed',
@@ -191,6 +263,9 @@ export const POPULAR_MODELS: ModelConfig[] = [
         hiddenSize: 5120,
         intermediateSize: 13824,
         maxContextLength: 131072,
+        vocabSize: 152064,
+        tieWordEmbeddings: false,
+        tokenizer: 'qwen2',
         isMoE: false,
         category: 'large',
         source: 'seed',
@@ -208,13 +283,43 @@ export const POPULAR_MODELS: ModelConfig[] = [
         numAttentionHeads: 32,
         numKVHeads: 16,
         hiddenSize: 4608,
+        headDim: 128,
         intermediateSize: 36864,
         maxContextLength: 8192,
+        vocabSize: 256000,
+        tieWordEmbeddings: true,
+        tokenizer: 'gemma',
         isMoE: false,
+        slidingWindow: 4096,
+        attentionPattern: ['local', 'global'],
         category: 'xl',
         source: 'seed',
         huggingFaceId: 'google/gemma-2-27b',
-        description: 'Google\'s largest Gemma model',
+        description: 'Google\'s Gemma 2 — alternating local/global attention',
+    },
+    {
+        id: 'gemma-3-27b',
+        name: 'Gemma 3 27B',
+        organization: 'Google',
+        params: 27.01,
+        layers: 62,
+        numAttentionHeads: 32,
+        numKVHeads: 16,
+        hiddenSize: 5376,
+        headDim: 128,
+        intermediateSize: 21504,
+        maxContextLength: 131072,
+        vocabSize: 262208,
+        tieWordEmbeddings: true,
+        tokenizer: 'gemma3',
+        isMoE: false,
+        slidingWindow: 1024,
+        attentionPattern: ['local', 'local', 'local', 'local', 'local', 'global'],
+        encoders: [{ modality: 'vision', params: 0.42, tokensPerItem: 256 }],
+        category: 'xl',
+        source: 'seed',
+        huggingFaceId: 'google/gemma-3-27b-it',
+        description: 'Google\'s largest Gemma — 5 local : 1 global attention layers, SigLIP vision encoder',
     },
     {
         id: 'codellama-34b',
@@ -227,6 +332,9 @@ export const POPULAR_MODELS: ModelConfig[] = [
         hiddenSize: 8192,
         intermediateSize: 22016,
         maxContextLength: 16384,
+        vocabSize: 32000,
+        tieWordEmbeddings: false,
+        tokenizer: 'llama2',
         isMoE: false,
         category: 'xl',
         source: 'seed',
@@ -244,6 +352,9 @@ export const POPULAR_MODELS: ModelConfig[] = [
         hiddenSize: 5120,
         intermediateSize: 12288,
         maxContextLength: 131072,
+        vocabSize: 152064,
+        tieWordEmbeddings: false,
+        tokenizer: 'qwen2',
         isMoE: false,
         category: 'xl',
         source: 'seed',
@@ -263,6 +374,9 @@ export const POPULAR_MODELS: ModelConfig[] = [
         hiddenSize: 8192,
         intermediateSize: 28672,
         maxContextLength: 131072,
+        vocabSize: 128256,
+        tieWordEmbeddings: false,
+        tokenizer: 'llama3',
         isMoE: false,
         category: 'xxl',
         source: 'seed',
@@ -280,6 +394,9 @@ export const POPULAR_MODELS: ModelConfig[] = [
         hiddenSize: 8192,
         intermediateSize: 29568,
         maxContextLength: 131072,
+        vocabSize: 152064,
+        tieWordEmbeddings: false,
+        tokenizer: 'qwen2',
         isMoE: false,
         category: 'xxl',
         source: 'seed',
@@ -299,6 +416,9 @@ export const POPULAR_MODELS: ModelConfig[] = [
         hiddenSize: 4096,
         intermediateSize: 14336,
         maxContextLength: 32768,
+        vocabSize: 32000,
+        tieWordEmbeddings: false,
+        tokenizer: 'mistral',
         isMoE: true,
         activeParams: 12.9,
         numExperts: 8,
@@ -319,6 +439,9 @@ export const POPULAR_MODELS: ModelConfig[] = [
         hiddenSize: 6144,
         intermediateSize: 16384,
         maxContextLength: 65536,
+        vocabSize: 32768,
+        tieWordEmbeddings: false,
+        tokenizer: 'mistral-v3',
         isMoE: true,
         activeParams: 39.1,
         numExperts: 8,
@@ -336,13 +459,22 @@ export const POPULAR_MODELS: ModelConfig[] = [
         layers: 61,
         numAttentionHeads: 128,
         numKVHeads: 128,
+        attentionType: 'mla',
+        kvLoraRank: 512,
+        qkRopeHeadDim: 64,
         hiddenSize: 7168,
         intermediateSize: 18432,
         maxContextLength: 131072,
+        vocabSize: 129280,
+        tieWordEmbeddings: false,
+        tokenizer: 'deepseek-v3',
         isMoE: true,
         activeParams: 36.7,
         numExperts: 256,
         numActiveExperts: 8,
+        expertIntermediateSize: 2048,
+        numSharedExperts: 1,
+        denseLayers: 3,
         category: 'moe',
         source: 'seed',
         huggingFaceId: 'deepseek-ai/DeepSeek-V3',
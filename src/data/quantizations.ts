@@ -0,0 +1,158 @@
+import type { GPUInfo, InferenceRuntime, QualityLoss, QuantizationFamily, QuantizationFormat, QuantizationType } from '../types';
+
+const ALL_VENDORS: GPUInfo['vendor'][] = ['nvidia', 'amd', 'intel', 'apple'];
+const GGUF_RUNTIMES: InferenceRuntime[] = ['llama.cpp', 'ollama'];
+
+/**
+ * Weight formats — bits per weight include block scales and zero points.
+ * `architectures` lists GPU generations with hardware support for formats
+ * that need it (matched against the GPU database's architecture name).
+ */
+export const QUANTIZATION_FORMATS: QuantizationFormat[] = [
+    // ─── Floating point ───
+    { id: 'FP32', label: 'FP32 (Full)', description: 'Full precision — best quality, most memory', family: 'float', bitsPerWeight: 32, vendors: ALL_VENDORS, runtimes: ['llama.cpp', 'ollama', 'mlx', 'tensorrt-llm'] },
+    { id: 'FP16', label: 'FP16 (Half)', description: 'Half precision — standard baseline', family: 'float', bitsPerWeight: 16, vendors: ALL_VENDORS, runtimes: ['llama.cpp', 'ollama', 'vllm', 'mlx', 'exllamav2', 'tensorrt-llm'] },
+    { id: 'BF16', label: 'BF16', description: 'Brain float — original weights of most models', family: 'float', bitsPerWeight: 16, vendors: ALL_VENDORS, runtimes: ['llama.cpp', 'ollama', 'vllm', 'mlx', 'tensorrt-llm'] },
+    { id: 'FP8', label: 'FP8 (E4M3)', description: '8-bit float — near-lossless, needs FP8 tensor cores', family: 'float', bitsPerWeight: 8, vendors: ['nvidia', 'amd'], runtimes: ['vllm', 'tensorrt-llm'], architectures: ['Ada', 'Hopper', 'Blackwell', 'CDNA 3', 'RDNA 4'] },
+
+    // ─── GGUF k-quants ───
+    { id: 'Q8_0', label: 'Q8_0', description: '8-bit — near-lossless quality', family: 'gguf', bitsPerWeight: 8.5, vendors: ALL_VENDORS, runtimes: ['llama.cpp', 'ollama', 'vllm', 'mlx', 'exllamav2', 'tensorrt-llm'] },
+    { id: 'Q6_K', label: 'Q6_K', description: '6-bit — excellent quality', family: 'gguf', bitsPerWeight: 6.57, vendors: ALL_VENDORS, runtimes: [...GGUF_RUNTIMES, 'mlx', 'exllamav2'] },
+    { id: 'Q5_K_M', label: 'Q5_K_M', description: '5-bit — very good quality', family: 'gguf', bitsPerWeight: 5.69, vendors: ALL_VENDORS, runtimes: GGUF_RUNTIMES },
+    { id: 'Q5_0', label: 'Q5_0', description: '5-bit — good quality', family: 'gguf', bitsPerWeight: 5.5, vendors: ALL_VENDORS, runtimes: [...GGUF_RUNTIMES, 'exllamav2'] },
+    { id: 'Q4_K_M', label: 'Q4_K_M ★', description: '4-bit — best balance of quality and size', family: 'gguf', bitsPerWeight: 4.85, vendors: ALL_VENDORS, runtimes: [...GGUF_RUNTIMES, 'vllm', 'exllamav2'] },
+    { id: 'Q4_0', label: 'Q4_0', description: '4-bit — good balance', family: 'gguf', bitsPerWeight: 4.5, vendors: ALL_VENDORS, runtimes: ['llama.cpp', 'ollama', 'vllm', 'mlx', 'exllamav2', 'tensorrt-llm'] },
+    { id: 'Q3_K_M', label: 'Q3_K_M', description: '3-bit — noticeable quality loss', family: 'gguf', bitsPerWeight: 3.91, vendors: ALL_VENDORS, runtimes: [...GGUF_RUNTIMES, 'exllamav2'] },
+    { id: 'Q3_K_S', label: 'Q3_K_S', description: '3-bit small — significant quality loss', family: 'gguf', bitsPerWeight: 3.5, vendors: ALL_VENDORS, runtimes: [...GGUF_RUNTIMES, 'mlx'] },
+    { id: 'Q2_K', label: 'Q2_K', description: '2-bit — extreme compression, poor quality', family: 'gguf', bitsPerWeight: 3.35, vendors: ALL_VENDORS, runtimes: [...GGUF_RUNTIMES, 'mlx', 'exllamav2'] },
+
+    // ─── GGUF i-quants (importance matrix) ───
+    { id: 'IQ4_NL', label: 'IQ4_NL', description: '4-bit non-linear — Q4_0 size, better quality', family: 'iquant', bitsPerWeight: 4.5, vendors: ALL_VENDORS, runtimes: GGUF_RUNTIMES },
+    { id: 'IQ4_XS', label: 'IQ4_XS', description: '4-bit — close to Q4_K_M, ~10% smaller', family: 'iquant', bitsPerWeight: 4.25, vendors: ALL_VENDORS, runtimes: GGUF_RUNTIMES },
+    { id: 'IQ3_M', label: 'IQ3_M', description: '3-bit — better than Q3_K_M at a smaller size', family: 'iquant', bitsPerWeight: 3.66, vendors: ALL_VENDORS, runtimes: GGUF_RUNTIMES },
+    { id: 'IQ3_XXS', label: 'IQ3_XXS', description: '3-bit — usable for large models', family: 'iquant', bitsPerWeight: 3.06, vendors: ALL_VENDORS, runtimes: GGUF_RUNTIMES },
+    { id: 'IQ2_M', label: 'IQ2_M', description: '2-bit — large models only', family: 'iquant', bitsPerWeight: 2.7, vendors: ALL_VENDORS, runtimes: GGUF_RUNTIMES },
+    { id: 'IQ2_XS', label: 'IQ2_XS', description: '2-bit — heavy quality loss', family: 'iquant', bitsPerWeight: 2.31, vendors: ALL_VENDORS, runtimes: GGUF_RUNTIMES },
+    { id: 'IQ2_XXS', label: 'IQ2_XXS', description: '2-bit — heavy quality loss', family: 'iquant', bitsPerWeight: 2.06, vendors: ALL_VENDORS, runtimes: GGUF_RUNTIMES },
+    { id: 'IQ1_M', label: 'IQ1_M', description: '1-bit — last resort for 100B+ models', family: 'iquant', bitsPerWeight: 1.75, vendors: ALL_VENDORS, runtimes: GGUF_RUNTIMES },
+    { id: 'IQ1_S', label: 'IQ1_S', description: '1-bit — barely coherent', family: 'iquant', bitsPerWeight: 1.56, vendors: ALL_VENDORS, runtimes: GGUF_RUNTIMES },
+
+    // ─── GPU-native 4-bit (per-group scale + zero point) ───
+    { id: 'GPTQ', label: 'GPTQ 4-bit', description: '4-bit with per-group scales — vLLM, ExLlama, TensorRT-LLM', family: 'gptq-awq', bitsPerWeight: 4, groupSize: 128, vendors: ['nvidia', 'amd'], runtimes: ['vllm', 'exllamav2', 'tensorrt-llm'] },
+    { id: 'AWQ', label: 'AWQ 4-bit', description: 'Activation-aware 4-bit — vLLM, TensorRT-LLM', family: 'gptq-awq', bitsPerWeight: 4, groupSize: 128, vendors: ['nvidia', 'amd'], runtimes: ['vllm', 'tensorrt-llm'] },
+
+    // ─── ExLlama (any bits per weight) ───
+    { id: 'EXL2', label: 'EXL2', description: 'Mixed-precision — pick any rate from 2 to 8 bpw', family: 'exl', bitsPerWeight: 4, bpwRange: [2, 8], vendors: ['nvidia'], runtimes: ['exllamav2'] },
+    { id: 'EXL3', label: 'EXL3', description: 'Trellis quantization — holds up down to ~2 bpw', family: 'exl', bitsPerWeight: 4, bpwRange: [1, 8], vendors: ['nvidia'], runtimes: ['exllamav2'] },
+
+    // ─── Microscaling 4-bit floats ───
+    { id: 'MXFP4', label: 'MXFP4', description: 'FP4 with an 8-bit scale per 32 weights (gpt-oss)', family: 'microscaling', bitsPerWeight: 4.25, vendors: ALL_VENDORS, runtimes: ['llama.cpp', 'ollama', 'vllm', 'tensorrt-llm'] },
+    { id: 'NVFP4', label: 'NVFP4', description: 'FP4 with an FP8 scale per 16 weights — Blackwell', family: 'microscaling', bitsPerWeight: 4.5, vendors: ['nvidia'], runtimes: ['vllm', 'tensorrt-llm'], architectures: ['Blackwell'] },
+];
+
+export const QUANTIZATION_FAMILIES: Record<QuantizationFamily, string> = {
+    float: 'Floating Point',
+    gguf: 'GGUF K-Quants',
+    iquant: 'GGUF I-Quants',
+    'gptq-awq': 'GPTQ / AWQ',
+    exl: 'ExLlama',
+    microscaling: 'Microscaling FP4',
+};
+
+export const GROUP_SIZE_OPTIONS = [32, 64, 128];
+
+/**
+ * Relative spread of real file sizes around the nominal bits per weight.
+ * K/I-quant mixes keep some tensors (embeddings, output, attn_v) at higher
+ * precision depending on the architecture; GPTQ/AWQ leave the embeddings
+ * and head unquantized.
+ */
+export const BPW_SPREAD: Record<QuantizationFamily, number> = {
+    float: 0,
+    gguf: 0.06,
+    iquant: 0.08,
+    'gptq-awq': 0.1,
+    exl: 0.05,
+    microscaling: 0.06,
+};
+
+export function getQuantizationFormat(id: QuantizationType): QuantizationFormat {
+    return QUANTIZATION_FORMATS.find((q) => q.id === id) ?? QUANTIZATION_FORMATS[0];
+}
+
+/**
+ * Whether a GPU can run the format at all — vendor backend and, for
+ * hardware-native formats, the architecture. Unknown architectures pass.
+ */
+export function isFormatSupportedOnGPU(format: QuantizationFormat, gpu: GPUInfo): boolean {
+    if (!format.vendors.includes(gpu.vendor)) return false;
+    if (!format.architectures || !gpu.architecture) return true;
+    const normalize = (name: string) => name.toLowerCase().replace(/\s+/g, '');
+    const arch = normalize(gpu.architecture);
+    return format.architectures.some((a) => arch.includes(normalize(a)));
+}
+
+// ============================================================================
+// Quality loss
+// ============================================================================
+
+/**
+ * Typical quality loss vs. FP16 on 7-8B models: perplexity increase (%) and
+ * mean KL divergence of the token distribution. Larger models lose less.
+ * Per-group formats are given at the default group size.
+ */
+export const QUANTIZATION_QUALITY: Record<QuantizationType, QualityLoss> = {
+    FP32: { perplexityDeltaPct: 0, kld: 0 },
+    FP16: { perplexityDeltaPct: 0, kld: 0 },
+    BF16: { perplexityDeltaPct: 0, kld: 0 },
+    FP8: { perplexityDeltaPct: 0.1, kld: 0.002 },
+    Q8_0: { perplexityDeltaPct: 0.05, kld: 0.001 },
+    Q6_K: { perplexityDeltaPct: 0.25, kld: 0.004 },
+    Q5_K_M: { perplexityDeltaPct: 0.6, kld: 0.01 },
+    Q5_0: { perplexityDeltaPct: 0.9, kld: 0.015 },
+    Q4_K_M: { perplexityDeltaPct: 1.8, kld: 0.03 },
+    Q4_0: { perplexityDeltaPct: 3.5, kld: 0.06 },
+    Q3_K_M: { perplexityDeltaPct: 6, kld: 0.1 },
+    Q3_K_S: { perplexityDeltaPct: 10, kld: 0.16 },
+    Q2_K: { perplexityDeltaPct: 20, kld: 0.32 },
+    IQ4_NL: { perplexityDeltaPct: 2.5, kld: 0.04 },
+    IQ4_XS: { perplexityDeltaPct: 2.2, kld: 0.036 },
+    IQ3_M: { perplexityDeltaPct: 5, kld: 0.085 },
+    IQ3_XXS: { perplexityDeltaPct: 9, kld: 0.15 },
+    IQ2_M: { perplexityDeltaPct: 18, kld: 0.3 },
+    IQ2_XS: { perplexityDeltaPct: 30, kld: 0.46 },
+    IQ2_XXS: { perplexityDeltaPct: 42, kld: 0.6 },
+    IQ1_M: { perplexityDeltaPct: 85, kld: 1.05 },
+    IQ1_S: { perplexityDeltaPct: 130, kld: 1.45 },
+    GPTQ: { perplexityDeltaPct: 3, kld: 0.05 },
+    AWQ: { perplexityDeltaPct: 2.5, kld: 0.045 },
+    EXL2: { perplexityDeltaPct: 2.5, kld: 0.04 },
+    EXL3: { perplexityDeltaPct: 1.5, kld: 0.025 },
+    MXFP4: { perplexityDeltaPct: 4, kld: 0.07 },
+    NVFP4: { perplexityDeltaPct: 2.5, kld: 0.04 },
+};
+
+/**
+ * Quality loss of formats with a free rate, by bits per weight (ascending)
+ */
+export const QUALITY_BY_BPW: Partial<Record<QuantizationType, { bpw: number; loss: QualityLoss }[]>> = {
+    EXL2: [
+        { bpw: 2, loss: { perplexityDeltaPct: 30, kld: 0.45 } },
+        { bpw: 2.5, loss: { perplexityDeltaPct: 15, kld: 0.24 } },
+        { bpw: 3, loss: { perplexityDeltaPct: 8, kld: 0.13 } },
+        { bpw: 4, loss: { perplexityDeltaPct: 2.5, kld: 0.04 } },
+        { bpw: 5, loss: { perplexityDeltaPct: 0.8, kld: 0.013 } },
+        { bpw: 6, loss: { perplexityDeltaPct: 0.3, kld: 0.005 } },
+        { bpw: 8, loss: { perplexityDeltaPct: 0.05, kld: 0.001 } },
+    ],
+    EXL3: [
+        { bpw: 1, loss: { perplexityDeltaPct: 90, kld: 1.1 } },
+        { bpw: 1.5, loss: { perplexityDeltaPct: 35, kld: 0.5 } },
+        { bpw: 2, loss: { perplexityDeltaPct: 14, kld: 0.22 } },
+        { bpw: 3, loss: { perplexityDeltaPct: 4.5, kld: 0.075 } },
+        { bpw: 4, loss: { perplexityDeltaPct: 1.5, kld: 0.025 } },
+        { bpw: 5, loss: { perplexityDeltaPct: 0.5, kld: 0.008 } },
+        { bpw: 6, loss: { perplexityDeltaPct: 0.2, kld: 0.003 } },
+        { bpw: 8, loss: { perplexityDeltaPct: 0.03, kld: 0.0005 } },
+    ],
+};
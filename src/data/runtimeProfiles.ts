@@ -0,0 +1,118 @@
+import type { InferenceRuntime, RuntimeProfile } from '../types';
+
+/**
+ * Inference runtime profiles — overheads and efficiencies are typical values
+ * observed with default settings, not guarantees.
+ */
+export const RUNTIME_PROFILES: RuntimeProfile[] = [
+    {
+        id: 'llama.cpp',
+        name: 'llama.cpp',
+        description: 'GGUF runtime with per-layer CPU offload (-ngl)',
+        vendors: ['nvidia', 'amd', 'intel', 'apple'],
+        frameworkOverheadGB: 0.4,
+        batchSize: 512,
+        worstCaseGraph: true,
+        kvAllocation: 'contiguous',
+        supportedKVCacheTypes: ['f16', 'bf16', 'q8_0', 'q5_1', 'q4_0'],
+        supportsCPUOffload: true,
+        supportsSpeculative: true,
+        supportsExpertOffload: true,
+        embeddingsInRAM: true,
+        streamsOffloadedWeights: true,
+        speedEfficiency: 1.0,
+    },
+    {
+        id: 'ollama',
+        name: 'Ollama',
+        description: 'llama.cpp-based server with automatic layer offload',
+        vendors: ['nvidia', 'amd', 'apple'],
+        frameworkOverheadGB: 0.6,
+        batchSize: 512,
+        worstCaseGraph: true,
+        kvAllocation: 'contiguous',
+        supportedKVCacheTypes: ['f16', 'q8_0', 'q4_0'],
+        supportsCPUOffload: true,
+        supportsSpeculative: false,
+        supportsExpertOffload: false,
+        embeddingsInRAM: true,
+        streamsOffloadedWeights: true,
+        speedEfficiency: 0.95,
+    },
+    {
+        id: 'vllm',
+        name: 'vLLM',
+        description: 'Serving engine — pre-allocates VRAM and pages the KV cache',
+        vendors: ['nvidia', 'amd'],
+        frameworkOverheadGB: 1.0,
+        batchSize: 2048,
+        worstCaseGraph: false,
+        kvAllocation: 'paged',
+        kvBlockSize: 16,
+        gpuMemoryUtilization: 0.9,
+        supportedKVCacheTypes: ['f16', 'bf16', 'fp8'],
+        supportsCPUOffload: false,
+        supportsSpeculative: true,
+        supportsExpertOffload: false,
+        embeddingsInRAM: false,
+        streamsOffloadedWeights: false,
+        speedEfficiency: 1.1,
+    },
+    {
+        id: 'mlx',
+        name: 'MLX',
+        description: 'Apple\'s array framework — native on Apple Silicon',
+        vendors: ['apple'],
+        frameworkOverheadGB: 0.3,
+        batchSize: 512,
+        worstCaseGraph: false,
+        kvAllocation: 'dynamic',
+        supportedKVCacheTypes: ['f16', 'bf16', 'q8_0', 'q4_0'],
+        supportsCPUOffload: false,
+        supportsSpeculative: true,
+        supportsExpertOffload: false,
+        embeddingsInRAM: false,
+        streamsOffloadedWeights: false,
+        speedEfficiency: 1.15,
+    },
+    {
+        id: 'exllamav2',
+        name: 'ExLlamaV2',
+        description: 'EXL2/EXL3 runtime for NVIDIA — fast single-user decoding',
+        vendors: ['nvidia'],
+        frameworkOverheadGB: 0.5,
+        batchSize: 2048,
+        worstCaseGraph: false,
+        kvAllocation: 'contiguous',
+        supportedKVCacheTypes: ['f16', 'q8_0', 'q4_0'],
+        supportsCPUOffload: false,
+        supportsSpeculative: true,
+        supportsExpertOffload: false,
+        embeddingsInRAM: false,
+        streamsOffloadedWeights: false,
+        speedEfficiency: 1.25,
+    },
+    {
+        id: 'tensorrt-llm',
+        name: 'TensorRT-LLM',
+        description: 'NVIDIA\'s compiled engines with paged KV and fused kernels',
+        vendors: ['nvidia'],
+        frameworkOverheadGB: 1.2,
+        batchSize: 2048,
+        worstCaseGraph: false,
+        kvAllocation: 'paged',
+        kvBlockSize: 64,
+        gpuMemoryUtilization: 0.9,
+        supportedKVCacheTypes: ['f16', 'bf16', 'q8_0', 'fp8'],
+        supportsCPUOffload: false,
+        supportsSpeculative: true,
+        supportsExpertOffload: false,
+        embeddingsInRAM: false,
+        streamsOffloadedWeights: false,
+        speedEfficiency: 1.35,
+    },
+];
+
+export function getRuntimeProfile(id: InferenceRuntime): RuntimeProfile {
+    return RUNTIME_PROFILES.find((r) => r.id === id) ?? RUNTIME_PROFILES[0];
+}
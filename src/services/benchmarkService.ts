@@ -0,0 +1,238 @@
+import type { BenchmarkMeasurement, BenchmarkSource, GPUInfo, ModelConfig } from '../types';
+import { isStoredGPU } from './gpuService';
+
+const STORAGE_KEY = 'benchmark_measurements';
+const GIB_TO_GB = 1.073741824;
+const FULL_OFFLOAD_NGL = 99; // llama-bench's default, more layers than any model has
+
+// Words GPU names are reported with but the database may leave out
+const VENDOR_WORDS = /\b(nvidia|geforce|amd|radeon|apple|intel|arc)\b|\((r|tm)\)/g;
+
+const SOURCES: BenchmarkSource[] = ['llama-bench', 'ollama'];
+
+// What was selected when the output was pasted: ollama's timings name no model or GPU
+export interface BenchmarkContext {
+    gpus: GPUInfo[]; // database to match reported device names against
+    fallbackGPU: GPUInfo | null; // null with several GPUs: a run can't be pinned on one of them
+    model: ModelConfig;
+    quantLabel: string;
+    weightsGB: number;
+    gpuLayerShare: number;
+}
+
+// ============================================================================
+// Local storage
+// ============================================================================
+
+function isRate(value: unknown): boolean {
+    return value === undefined || (typeof value === 'number' && Number.isFinite(value) && value > 0);
+}
+
+/**
+ * Whether a stored measurement has every field the fit reads, in range
+ */
+function isMeasurement(value: unknown): value is BenchmarkMeasurement {
+    if (typeof value !== 'object' || value === null) return false;
+    const m = value as Record<string, unknown>;
+    const positive = (n: unknown) => typeof n === 'number' && Number.isFinite(n) && n > 0;
+    return typeof m.id === 'string'
+        && SOURCES.includes(m.source as BenchmarkSource)
+        && typeof m.modelName === 'string'
+        && typeof m.quantLabel === 'string'
+        && isStoredGPU(m.gpu)
+        && positive(m.weightsGB) && positive(m.params) && positive(m.activeParams)
+        && typeof m.gpuLayerShare === 'number' && m.gpuLayerShare >= 0 && m.gpuLayerShare <= 1
+        && isRate(m.promptTokensPerSec) && isRate(m.genTokensPerSec);
+}
+
+export function loadMeasurements(): BenchmarkMeasurement[] {
+    try {
+        const raw = localStorage.getItem(STORAGE_KEY);
+        const stored: unknown = raw ? JSON.parse(raw) : [];
+        return Array.isArray(stored) ? stored.filter(isMeasurement) : [];
+    } catch {
+        return [];
+    }
+}
+
+export function saveMeasurements(measurements: BenchmarkMeasurement[]): void {
+    try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(measurements));
+    } catch {
+        // localStorage might be full
+    }
+}
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+function normalizeName(name: string): string {
+    return ` ${name.toLowerCase().replace(VENDOR_WORDS, ' ').replace(/[^a-z0-9]+/g, ' ').trim()} `;
+}
+
+/**
+ * Longest database name contained in the reported device name, so
+ * "NVIDIA GeForce RTX 4090" picks "RTX 4090" and not "RTX 40"
+ */
+function matchGPU(deviceName: string, gpus: GPUInfo[]): GPUInfo | undefined {
+    const device = normalizeName(deviceName);
+    let best: GPUInfo | undefined;
+    let bestLength = 0;
+    for (const gpu of gpus) {
+        const name = normalizeName(gpu.vendor === 'apple' ? gpu.architecture ?? gpu.name : gpu.name);
+        if (name.trim() && device.includes(name) && name.length > bestLength) {
+            best = gpu;
+            bestLength = name.length;
+        }
+    }
+    return best;
+}
+
+/**
+ * Devices llama.cpp reports (CUDA/ROCm/SYCL, Vulkan, Metal)
+ */
+function findDeviceNames(text: string): string[] {
+    const patterns = [/Device \d+: ([^,\n]+)/g, /ggml_vulkan: \d+ = ([^(|\n]+)/g, /GPU name:\s+(.+)/g, /found device: (.+)/g];
+    for (const pattern of patterns) {
+        const names = [...text.matchAll(pattern)].map((m) => m[1].trim());
+        if (names.length > 0) return names;
+    }
+    return [];
+}
+
+function parseAmount(value: string): number {
+    const match = value.match(/([\d.]+)\s*([KMGT]i?B?|B)?/);
+    if (!match) return 0;
+    const amount = parseFloat(match[1]);
+    const unit = match[2] ?? '';
+    if (unit === 'GiB') return amount * GIB_TO_GB;
+    if (unit === 'MiB') return (amount * GIB_TO_GB) / 1024;
+    if (unit === 'M') return amount / 1000; // params in millions
+    return amount;
+}
+
+/**
+ * llama-bench's markdown table: one row per test, pp512 and tg128 rows of
+ * the same model and settings are merged into one measurement. Model types
+ * read like "llama 8B Q4_K - Medium" or "qwen3moe 30B.A3B Q4_K - Medium".
+ */
+function parseLlamaBench(text: string, context: BenchmarkContext): BenchmarkMeasurement[] {
+    const rows = text.split('\n')
+        .filter((line) => line.trim().startsWith('|'))
+        .map((line) => line.trim().replace(/^\||\|$/g, '').split('|').map((cell) => cell.trim()));
+    const header = rows.find((cells) => cells.includes('model') && cells.includes('t/s'));
+    if (!header) return [];
+    const col = (name: string) => header.indexOf(name);
+
+    // A run split over several GPUs says nothing about any one of them
+    const deviceNames = findDeviceNames(text);
+    if (deviceNames.length > 1) return [];
+    const gpu = (deviceNames.length === 1 && matchGPU(deviceNames[0], context.gpus)) || context.fallbackGPU;
+    if (!gpu) return [];
+    const merged = new Map<string, BenchmarkMeasurement>();
+
+    for (const cells of rows) {
+        if (cells === header || cells.every((cell) => /^:?-*:?$/.test(cell))) continue;
+        const test = cells[col('test')] ?? '';
+        const tokensPerSec = parseFloat(cells[col('t/s')] ?? '');
+        if (!/^(pp|tg)\d+$/.test(test) || !tokensPerSec) continue;
+
+        const type = cells[col('model')];
+        const params = parseAmount(cells[col('params')] ?? '');
+        const weightsGB = parseAmount(cells[col('size')] ?? '');
+        if (!params || !weightsGB) continue;
+
+        const backend = cells[col('backend')] ?? '';
+        const ngl = col('ngl') >= 0 ? parseInt(cells[col('ngl')]) : FULL_OFFLOAD_NGL;
+        if (!Number.isFinite(ngl)) continue;
+        let gpuLayerShare: number;
+        if (!/cuda|metal|rocm|hip|vulkan|sycl|opencl/i.test(backend) || ngl === 0) {
+            gpuLayerShare = 0;
+        } else if (ngl >= FULL_OFFLOAD_NGL) {
+            gpuLayerShare = 1;
+        } else if (Math.abs(context.model.params - params) / params < 0.1) {
+            // Partial offload needs the layer count; ngl also counts the output layer
+            gpuLayerShare = Math.min(1, ngl / (context.model.layers + 1));
+        } else {
+            continue;
+        }
+
+        const name = type.match(/^(.*?\d+(?:\.\d+)?[MB](?:\.A\d+(?:\.\d+)?B)?)\s+(.+)$/);
+        const active = type.match(/\.A(\d+(?:\.\d+)?)B/);
+        const key = `${type}|${backend}|${ngl}`;
+        const measurement = merged.get(key) ?? {
+            id: `${Date.now()}-${merged.size}`,
+            source: 'llama-bench',
+            modelName: name?.[1] ?? type,
+            quantLabel: name?.[2] ?? '',
+            gpu,
+            weightsGB: Math.round(weightsGB * 100) / 100,
+            params,
+            activeParams: active ? parseFloat(active[1]) : params,
+            gpuLayerShare,
+        };
+        if (test.startsWith('pp')) measurement.promptTokensPerSec = tokensPerSec;
+        else measurement.genTokensPerSec = tokensPerSec;
+        merged.set(key, measurement);
+    }
+
+    return [...merged.values()];
+}
+
+/**
+ * `ollama run --verbose` timings, one measurement per answer. The model,
+ * GPU and offload are whatever is selected here, so only a single-GPU
+ * selection can be recorded.
+ */
+function parseOllamaVerbose(text: string, context: BenchmarkContext): BenchmarkMeasurement[] {
+    const gpu = context.fallbackGPU;
+    if (!gpu) return [];
+    const promptRates = [...text.matchAll(/prompt eval rate:\s*([\d.]+)\s*tokens\/s/g)].map((m) => parseFloat(m[1]));
+    const genRates = [...text.matchAll(/^\s*eval rate:\s*([\d.]+)\s*tokens\/s/gm)].map((m) => parseFloat(m[1]));
+    const runs = Math.max(promptRates.length, genRates.length);
+
+    return Array.from({ length: runs }, (_, i) => ({
+        id: `${Date.now()}-${i}`,
+        source: 'ollama' as const,
+        modelName: context.model.name,
+        quantLabel: context.quantLabel,
+        gpu,
+        weightsGB: Math.round(context.weightsGB * 100) / 100,
+        params: context.model.params,
+        activeParams: context.model.isMoE && context.model.activeParams ? context.model.activeParams : context.model.params,
+        gpuLayerShare: context.gpuLayerShare,
+        promptTokensPerSec: promptRates[i],
+        genTokensPerSec: genRates[i],
+    }));
+}
+
+/**
+ * Parse pasted llama-bench or `ollama run --verbose` output; empty when neither is found
+ */
+export function parseBenchmarkOutput(text: string, context: BenchmarkContext): BenchmarkMeasurement[] {
+    switch (detectBenchmarkSource(text)) {
+        case 'llama-bench':
+            return parseLlamaBench(text, context);
+        case 'ollama':
+            return parseOllamaVerbose(text, context);
+        default:
+            return [];
+    }
+}
+
+/**
+ * Which tool printed the output, if either
+ */
+export function detectBenchmarkSource(text: string): BenchmarkSource | null {
+    if (/\|\s*model\s*\|/.test(text)) return 'llama-bench';
+    if (/eval rate:/.test(text)) return 'ollama';
+    return null;
+}
+
+/**
+ * Number of GPUs a llama-bench log reports, 0 when it names none
+ */
+export function countReportedDevices(text: string): number {
+    return findDeviceNames(text).length;
+}
@@ -2,6 +2,7 @@ import type { GPUInfo, CacheEntry } from '../types';
 import { APPLE_SILICON_PRESETS } from '../data/appleSilicon';
 
 const CACHE_KEY = 'gpu_database_cache';
+const CUSTOM_APPLE_KEY = 'custom_apple_presets';
 const CACHE_TTL = 7 * 24 * 60 * 60 * 1000; // 7 days
 
 const GPU_URLS: Record<string, string> = {
@@ -19,6 +20,8 @@ interface RawGPU {
     architecture?: string;
     generation?: string;
     tdp?: number;
+    fp16Tflops?: number;
+    int8Tops?: number;
 }
 
 function getCache(): GPUInfo[] | null {
@@ -62,6 +65,8 @@ function mapRawGPU(raw: RawGPU, vendor: string): GPUInfo | null {
         architecture: raw.architecture,
         generation: raw.generation,
         tdp: raw.tdp,
+        fp16Tflops: raw.fp16Tflops || undefined,
+        int8Tops: raw.int8Tops || undefined,
     };
 }
 
@@ -112,6 +117,42 @@ export async function fetchGPUs(): Promise<GPUInfo[]> {
     return [...filtered, ...APPLE_SILICON_PRESETS];
 }
 
+/**
+ * Macs the user defined, offered next to the bundled Apple Silicon presets
+ */
+const GPU_VENDORS: GPUInfo['vendor'][] = ['nvidia', 'amd', 'intel', 'apple'];
+
+/**
+ * Whether a GPU read back from localStorage has the fields the calculator uses
+ */
+export function isStoredGPU(value: unknown): value is GPUInfo {
+    if (typeof value !== 'object' || value === null) return false;
+    const gpu = value as Record<string, unknown>;
+    return typeof gpu.name === 'string' && gpu.name.trim() !== ''
+        && GPU_VENDORS.includes(gpu.vendor as GPUInfo['vendor'])
+        && typeof gpu.memorySize === 'number' && gpu.memorySize > 0
+        && typeof gpu.memoryBandwidth === 'number' && gpu.memoryBandwidth >= 0
+        && typeof gpu.memoryType === 'string';
+}
+
+export function loadCustomApplePresets(): GPUInfo[] {
+    try {
+        const raw = localStorage.getItem(CUSTOM_APPLE_KEY);
+        const stored: unknown = raw ? JSON.parse(raw) : [];
+        return Array.isArray(stored) ? stored.filter((gpu): gpu is GPUInfo => isStoredGPU(gpu) && gpu.vendor === 'apple') : [];
+    } catch {
+        return [];
+    }
+}
+
+export function saveCustomApplePresets(presets: GPUInfo[]): void {
+    try {
+        localStorage.setItem(CUSTOM_APPLE_KEY, JSON.stringify(presets));
+    } catch {
+        // localStorage might be full
+    }
+}
+
 export function getGPUsByVendor(gpus: GPUInfo[]): Record<string, GPUInfo[]> {
     const grouped: Record<string, GPUInfo[]> = {
         nvidia: [],
@@ -1,8 +1,13 @@
-import type { ModelConfig, CacheEntry } from '../types';
+import type { ModelConfig, CacheEntry, AttentionLayerType, EncoderConfig } from '../types';
 
 const CACHE_KEY_PREFIX = 'hf_model_cache_';
 const SEARCH_CACHE_KEY = 'hf_search_cache_';
 const CACHE_TTL = 24 * 60 * 60 * 1000; // 24 hours
+const DYNAMIC_IMAGE_SIZE = 1024; // px assumed for encoders without a fixed resolution (Qwen2-VL)
+const AUDIO_POOLING = 2; // Whisper-style encoders pool 1500 frames of a 30-s clip to 750 tokens
+
+// Hub pipelines of models that generate text, including vision/audio-language models
+const GENERATIVE_PIPELINES = ['text-generation', 'image-text-to-text', 'audio-text-to-text', 'any-to-any'];
 
 interface HFModelListItem {
     _id: string;
@@ -19,16 +24,56 @@ interface HFConfig {
     num_attention_heads?: number;
     num_key_value_heads?: number;
     hidden_size?: number;
+    head_dim?: number;
     intermediate_size?: number;
     max_position_embeddings?: number;
     model_type?: string;
+    tie_word_embeddings?: boolean;
     num_local_experts?: number;
     num_experts_per_tok?: number;
+    // MoE variants with fine-grained / shared experts (DeepSeek, Qwen MoE)
+    n_routed_experts?: number;
+    num_experts?: number;
+    n_shared_experts?: number;
+    moe_intermediate_size?: number;
+    shared_expert_intermediate_size?: number;
+    first_k_dense_replace?: number;
     vocab_size?: number;
+    // Sliding-window / hybrid attention
+    sliding_window?: number | null;
+    use_sliding_window?: boolean;
+    sliding_window_pattern?: number;
+    layer_types?: string[];
+    // Multi-head Latent Attention (DeepSeek V2/V3)
+    kv_lora_rank?: number | null;
+    qk_rope_head_dim?: number;
     // Some models use different keys
     n_layer?: number;
     n_head?: number;
     n_embd?: number;
+    // Multimodal configs nest the language model and its encoders
+    text_config?: HFConfig;
+    vision_config?: HFEncoderConfig;
+    audio_config?: HFEncoderConfig;
+    mm_tokens_per_image?: number; // Gemma 3
+    image_seq_length?: number; // Llava, PaliGemma
+}
+
+interface HFEncoderConfig {
+    hidden_size?: number;
+    embed_dim?: number; // Qwen2-VL, where hidden_size is the projector output
+    d_model?: number; // Whisper-style audio
+    num_hidden_layers?: number;
+    depth?: number;
+    encoder_layers?: number;
+    intermediate_size?: number;
+    encoder_ffn_dim?: number;
+    mlp_ratio?: number;
+    image_size?: number;
+    patch_size?: number;
+    spatial_merge_size?: number; // patches merged into one token (Qwen2-VL)
+    max_num_tiles?: number; // Llama 3.2 Vision
+    max_source_positions?: number; // audio frames per clip
 }
 
 function getCacheEntry<T>(key: string): T | null {
@@ -55,30 +100,160 @@ function setCacheEntry<T>(key: string, data: T): void {
     }
 }
 
+/**
+ * Expert layout of an MoE config. Mixtral names the expert count
+ * `num_local_experts`; DeepSeek adds shared experts and leading dense
+ * layers, and Qwen MoE gives one wide shared expert.
+ */
+function parseMoEShape(config: HFConfig): Pick<ModelConfig, 'numExperts' | 'expertIntermediateSize' | 'numSharedExperts' | 'denseLayers'> {
+    const numExperts = config.num_local_experts || config.n_routed_experts || config.num_experts || 1;
+    if (numExperts <= 1) return { numExperts: 1 };
+
+    const expertWidth = config.moe_intermediate_size;
+    let numSharedExperts = config.n_shared_experts;
+    if (!numSharedExperts && config.shared_expert_intermediate_size && expertWidth) {
+        numSharedExperts = Math.round(config.shared_expert_intermediate_size / expertWidth);
+    }
+    return {
+        numExperts,
+        expertIntermediateSize: expertWidth,
+        numSharedExperts: numSharedExperts || undefined,
+        denseLayers: config.first_k_dense_replace || undefined,
+    };
+}
+
+/**
+ * Parameters in routed experts (billions) — only numActiveExperts of them are used per token
+ */
+function estimateRoutedParams(config: HFConfig): number {
+    const moe = parseMoEShape(config);
+    if ((moe.numExperts ?? 1) <= 1) return 0;
+    const layers = config.num_hidden_layers || config.n_layer || 32;
+    const hidden = config.hidden_size || config.n_embd || 4096;
+    const expertWidth = moe.expertIntermediateSize || config.intermediate_size || hidden * 4;
+    const moeLayers = layers - (moe.denseLayers ?? 0);
+    return (moeLayers * hidden * expertWidth * 3 * (moe.numExperts ?? 1)) / 1e9;
+}
+
+/**
+ * Whether the output head reuses the embedding. Configs that leave the flag
+ * out get transformers' default, which is tied.
+ */
+function isTied(config: HFConfig): boolean {
+    return config.tie_word_embeddings ?? true;
+}
+
 function estimateParams(config: HFConfig): number {
     const layers = config.num_hidden_layers || config.n_layer || 32;
     const hidden = config.hidden_size || config.n_embd || 4096;
     const intermediate = config.intermediate_size || hidden * 4;
     const vocab = config.vocab_size || 32000;
     const heads = config.num_attention_heads || config.n_head || 32;
-    const headDim = hidden / heads;
+    const headDim = config.head_dim || hidden / heads;
     const kvHeads = config.num_key_value_heads || heads;
 
     // Approximate: attention weights + MLP weights + embedding
-    const attentionParams = layers * (hidden * hidden + hidden * headDim * kvHeads * 2 + hidden * hidden);
+    const attentionParams = layers * (2 * hidden * heads * headDim + 2 * hidden * headDim * kvHeads); // Q, O + K, V
     const mlpParams = layers * (hidden * intermediate * 3); // gate, up, down projections
-    const embeddingParams = vocab * hidden * 2; // input + output embeddings
+    const embeddingParams = vocab * hidden * (isTied(config) ? 1 : 2); // input + output embeddings
 
     let totalParams = attentionParams + mlpParams + embeddingParams;
 
-    // MoE: multiply MLP by number of experts
-    if (config.num_local_experts && config.num_local_experts > 1) {
-        totalParams = attentionParams + mlpParams * config.num_local_experts + embeddingParams;
+    // MoE: routed + shared experts replace the MLP outside the leading dense layers
+    const moe = parseMoEShape(config);
+    if ((moe.numExperts ?? 1) > 1) {
+        const denseLayers = moe.denseLayers ?? 0;
+        const sharedRatio = (moe.numSharedExperts ?? 0) / (moe.numExperts ?? 1);
+        const denseMLP = denseLayers * hidden * intermediate * 3;
+        totalParams = attentionParams + denseMLP + estimateRoutedParams(config) * 1e9 * (1 + sharedRatio) + embeddingParams;
     }
 
     return totalParams / 1e9; // billions
 }
 
+function parseAttentionType(config: HFConfig): Pick<ModelConfig, 'attentionType' | 'kvLoraRank' | 'qkRopeHeadDim'> {
+    if (config.kv_lora_rank) {
+        return {
+            attentionType: 'mla',
+            kvLoraRank: config.kv_lora_rank,
+            qkRopeHeadDim: config.qk_rope_head_dim || 64,
+        };
+    }
+    return { attentionType: 'gqa' };
+}
+
+/**
+ * Derive the local/global attention layout from config.json.
+ * Newer configs list `layer_types` explicitly; Gemma 3 gives a period
+ * (every Nth layer is global), Gemma 2 alternates, and Mistral-style
+ * configs apply the window to every layer.
+ */
+function parseAttentionPattern(config: HFConfig): Pick<ModelConfig, 'slidingWindow' | 'attentionPattern'> {
+    const window = config.sliding_window;
+    if (!window || config.use_sliding_window === false) return {};
+
+    let pattern: AttentionLayerType[];
+    if (config.layer_types && config.layer_types.length > 0) {
+        pattern = config.layer_types.map((t) => (t === 'sliding_attention' ? 'local' : 'global'));
+    } else if (config.sliding_window_pattern && config.sliding_window_pattern > 1) {
+        pattern = [...Array(config.sliding_window_pattern - 1).fill('local'), 'global'];
+    } else if (config.model_type === 'gemma2') {
+        pattern = ['local', 'global'];
+    } else {
+        pattern = ['local'];
+    }
+
+    if (!pattern.includes('local')) return {};
+    return { slidingWindow: window, attentionPattern: pattern };
+}
+
+/**
+ * Transformer encoder + projector parameters (billions). The projector maps
+ * `inputDim` encoder features to the language model's hidden size.
+ */
+function estimateEncoderParams(enc: HFEncoderConfig, textHidden: number, inputDim: number): number {
+    const hidden = enc.embed_dim || enc.d_model || enc.hidden_size || 1024;
+    const layers = enc.num_hidden_layers || enc.depth || enc.encoder_layers || 24;
+    const intermediate = enc.intermediate_size || enc.encoder_ffn_dim || hidden * (enc.mlp_ratio || 4);
+    const encoderParams = layers * (4 * hidden * hidden + 2 * hidden * intermediate);
+    const projectorParams = inputDim * textHidden + textHidden * textHidden;
+    return (encoderParams + projectorParams) / 1e9;
+}
+
+/**
+ * Vision and audio encoders of a multimodal config. Image tokens come from
+ * the config when given, else from the patch grid (merged patches, tiles).
+ */
+function parseEncoders(config: HFConfig, textHidden: number): EncoderConfig[] {
+    const encoders: EncoderConfig[] = [];
+
+    const vision = config.vision_config;
+    if (vision) {
+        const hidden = vision.embed_dim || vision.hidden_size || 1024;
+        const merge = vision.spatial_merge_size || 1;
+        const patchesPerSide = (vision.image_size || DYNAMIC_IMAGE_SIZE) / (vision.patch_size || 14);
+        const tokensPerItem = config.mm_tokens_per_image || config.image_seq_length
+            || Math.round(((patchesPerSide * patchesPerSide) / (merge * merge)) * (vision.max_num_tiles || 1));
+        encoders.push({
+            modality: 'vision',
+            params: Math.round(estimateEncoderParams(vision, textHidden, hidden * merge * merge) * 1000) / 1000,
+            tokensPerItem,
+        });
+    }
+
+    const audio = config.audio_config;
+    if (audio) {
+        const hidden = audio.d_model || audio.hidden_size || 1280;
+        encoders.push({
+            modality: 'audio',
+            params: Math.round(estimateEncoderParams(audio, textHidden, hidden) * 1000) / 1000,
+            tokensPerItem: Math.round((audio.max_source_positions || 1500) / AUDIO_POOLING),
+        });
+    }
+
+    return encoders;
+}
+
 function categorizeModel(params: number, isMoE: boolean): ModelConfig['category'] {
     if (isMoE) return 'moe';
     if (params <= 3) return 'small';
@@ -88,25 +263,26 @@ function categorizeModel(params: number, isMoE: boolean): ModelConfig['category'
     return 'xxl';
 }
 
-function configToModelConfig(hfId: string, config: HFConfig): ModelConfig {
+function configToModelConfig(hfId: string, rawConfig: HFConfig): ModelConfig {
+    // Multimodal models keep the language model under text_config
+    const config: HFConfig = { ...rawConfig, ...rawConfig.text_config };
     const layers = config.num_hidden_layers || config.n_layer || 32;
     const heads = config.num_attention_heads || config.n_head || 32;
     const hidden = config.hidden_size || config.n_embd || 4096;
     const kvHeads = config.num_key_value_heads || heads;
     const intermediate = config.intermediate_size || hidden * 4;
     const maxContext = config.max_position_embeddings || 4096;
-    const isMoE = (config.num_local_experts || 0) > 1;
-    const numExperts = config.num_local_experts || 1;
+    const moe = parseMoEShape(config);
+    const numExperts = moe.numExperts ?? 1;
+    const isMoE = numExperts > 1;
     const numActiveExperts = config.num_experts_per_tok || 1;
 
     const totalParams = estimateParams(config);
     let activeParams = totalParams;
-    if (isMoE && numExperts > 1) {
-        // Active params = attention + active_experts_MLP + embedding
-        const mlpPerExpert = layers * (hidden * intermediate * 3) / 1e9;
-        const totalMLP = mlpPerExpert * numExperts;
-        const activeMLP = mlpPerExpert * numActiveExperts;
-        activeParams = totalParams - totalMLP + activeMLP;
+    if (isMoE) {
+        // Active params = everything except the routed experts that are not picked
+        const routedParams = estimateRoutedParams(config);
+        activeParams = totalParams - routedParams + (routedParams * numActiveExperts) / numExperts;
     }
 
     const parts = hfId.split('/');
@@ -121,13 +297,20 @@ function configToModelConfig(hfId: string, config: HFConfig): ModelConfig {
         layers,
         numAttentionHeads: heads,
         numKVHeads: kvHeads,
+        ...parseAttentionType(config),
         hiddenSize: hidden,
+        headDim: config.head_dim || undefined,
         intermediateSize: intermediate,
         maxContextLength: maxContext,
+        vocabSize: config.vocab_size,
+        tieWordEmbeddings: isTied(config),
         isMoE,
         activeParams: isMoE ? Math.round(activeParams * 100) / 100 : undefined,
         numExperts: isMoE ? numExperts : undefined,
         numActiveExperts: isMoE ? numActiveExperts : undefined,
+        ...(isMoE ? moe : {}),
+        ...parseAttentionPattern(config),
+        encoders: rawConfig.vision_config || rawConfig.audio_config ? parseEncoders(rawConfig, hidden) : undefined,
         category: categorizeModel(isMoE ? activeParams : totalParams, isMoE),
         source: 'huggingface',
         huggingFaceId: hfId,
@@ -142,13 +325,14 @@ export async function searchHuggingFaceModels(query: string): Promise<ModelConfi
     if (cached) return cached;
 
     try {
-        const url = `https://huggingface.co/api/models?search=${encodeURIComponent(query)}&filter=text-generation&sort=downloads&direction=-1&limit=20`;
+        const url = `https://huggingface.co/api/models?search=${encodeURIComponent(query)}&sort=downloads&direction=-1&limit=40`;
         const response = await fetch(url);
         if (!response.ok) throw new Error(`HTTP ${response.status}`);
         const items: HFModelListItem[] = await response.json();
+        const generative = items.filter((item) => item.pipeline_tag && GENERATIVE_PIPELINES.includes(item.pipeline_tag));
 
         // Fetch configs in parallel (max 10)
-        const modelPromises = items.slice(0, 10).map(async (item) => {
+        const modelPromises = generative.slice(0, 10).map(async (item) => {
             try {
                 return await fetchModelConfig(item.id);
             } catch {
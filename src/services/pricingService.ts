@@ -0,0 +1,26 @@
+import type { PriceOverrides } from '../types';
+
+const STORAGE_KEY = 'price_overrides';
+
+const EMPTY_OVERRIDES: PriceOverrides = { cloudHourly: {}, purchase: {} };
+
+// ============================================================================
+// Local storage
+// ============================================================================
+
+export function loadPriceOverrides(): PriceOverrides {
+    try {
+        const raw = localStorage.getItem(STORAGE_KEY);
+        return raw ? { ...EMPTY_OVERRIDES, ...JSON.parse(raw) } : EMPTY_OVERRIDES;
+    } catch {
+        return EMPTY_OVERRIDES;
+    }
+}
+
+export function savePriceOverrides(overrides: PriceOverrides): void {
+    try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(overrides));
+    } catch {
+        // localStorage might be full
+    }
+}
@@ -10,19 +10,46 @@ export interface ModelConfig {
   layers: number;
   numAttentionHeads: number;
   numKVHeads: number;
+  attentionType?: AttentionType; // absent = 'gqa'
+  kvLoraRank?: number; // MLA: width of the compressed KV latent
+  qkRopeHeadDim?: number; // MLA: decoupled RoPE key dims cached alongside the latent
   hiddenSize: number;
+  headDim?: number; // attention head width; absent = hiddenSize / numAttentionHeads
   intermediateSize: number;
   maxContextLength: number;
+  vocabSize?: number;
+  tieWordEmbeddings?: boolean; // output head reuses the token embedding matrix; tied when left out, as in transformers
+  tokenizer?: string; // tokenizer family (e.g. 'llama3', 'qwen2'); absent = unknown
   isMoE: boolean;
   activeParams?: number; // billions, for MoE
   numExperts?: number;
   numActiveExperts?: number;
+  expertIntermediateSize?: number; // FFN width of one routed expert; absent = intermediateSize
+  numSharedExperts?: number; // experts every token passes through (DeepSeek, Qwen MoE)
+  denseLayers?: number; // leading layers with a plain FFN instead of experts
+  slidingWindow?: number; // tokens seen by local (sliding-window) attention layers
+  attentionPattern?: AttentionLayerType[]; // repeats across layers; absent = all global
+  encoders?: EncoderConfig[]; // vision/audio encoders in front of the language model
   category: ModelCategory;
   source: 'huggingface' | 'seed' | 'custom';
   huggingFaceId?: string;
   description?: string;
 }
 
+// 'gqa' covers MHA and MQA too; 'mla' caches a compressed latent (DeepSeek V2/V3)
+export type AttentionType = 'gqa' | 'mla';
+
+export type AttentionLayerType = 'global' | 'local';
+
+export type EncoderModality = 'vision' | 'audio';
+
+// A vision or audio encoder plus its projector; params are not part of ModelConfig.params
+export interface EncoderConfig {
+  modality: EncoderModality;
+  params: number; // billions
+  tokensPerItem: number; // language-model tokens per image / audio clip
+}
+
 export type ModelCategory = 'small' | 'medium' | 'large' | 'xl' | 'xxl' | 'moe';
 
 export interface GPUInfo {
@@ -34,20 +61,68 @@ export interface GPUInfo {
   architecture?: string;
   generation?: string;
   tdp?: number;
+  fp16Tflops?: number; // dense FP16 tensor throughput
+  int8Tops?: number; // dense INT8 tensor throughput
+}
+
+// How a model is split across several GPUs (llama.cpp --split-mode)
+export type GPUSplitMode =
+  | 'layer' // pipeline: whole layers per GPU
+  | 'tensor' // every layer sliced across GPUs, KV sliced too
+  | 'row'; // weight rows sliced across GPUs, KV on the main GPU
+
+// PCIe generation of the slot a GPU sits in
+export type PCIeGen = 3 | 4 | 5;
+
+export interface GPUDevice {
+  gpu: GPUInfo;
+  splitRatio?: number; // relative share (--tensor-split); absent = proportional to VRAM
+  pcieGen?: PCIeGen; // absent = 4
+  pcieLanes?: number; // electrical lanes of the slot or riser; absent = 16
+  reservedVRAMGB?: number; // held by the display, desktop and other apps; absent = headless
+}
+
+// Typical VRAM taken by what else runs on a GPU
+export interface VRAMReservePreset {
+  id: 'headless' | 'single_display' | 'multi_monitor';
+  label: string;
+  description: string;
+  reservedGB: number;
+}
+
+// System memory behind the CPU
+export type SystemMemoryType = 'DDR4' | 'DDR5';
+
+export interface CPUInfo {
+  name: string;
+  vendor: 'intel' | 'amd';
+  cores: number;
+  clockGHz: number; // all-core clock under load
+  avx512: boolean;
+  amx: boolean; // Intel AMX tile matmuls (Sapphire Rapids and later)
+  memoryType: SystemMemoryType;
+  memoryChannels: number; // populated 64-bit channels
+  memorySpeed: number; // MT/s
 }
 
 export interface HardwareConfig {
-  gpu: GPUInfo | null;
-  gpuCount: number;
+  gpus: GPUDevice[]; // first entry is the main GPU
+  splitMode: GPUSplitMode;
   systemRAM: number; // GB
-  isAppleSilicon: boolean;
+  reservedRAMGB?: number; // kept for the OS and other apps; absent = DEFAULT_RESERVED_RAM_GB
+  cpu?: CPUInfo; // sizes CPU and offload speed; without one a flat penalty is used
+  nvlink?: boolean; // GPUs bridged with NVLink; peer copies skip PCIe
+  isAppleSilicon: boolean; // unified memory, no PCIe or NVLink link to model
   appleSiliconModel?: string;
+  appleGPULimitGB?: number; // iogpu.wired_limit_mb raised by the user; absent = macOS default
   customVRAM?: number; // GB, override
 }
 
 export type QuantizationType =
   | 'FP32'
   | 'FP16'
+  | 'BF16'
+  | 'FP8'
   | 'Q8_0'
   | 'Q6_K'
   | 'Q5_K_M'
@@ -56,37 +131,408 @@ export type QuantizationType =
   | 'Q4_0'
   | 'Q3_K_M'
   | 'Q3_K_S'
-  | 'Q2_K';
+  | 'Q2_K'
+  | 'IQ4_NL'
+  | 'IQ4_XS'
+  | 'IQ3_M'
+  | 'IQ3_XXS'
+  | 'IQ2_M'
+  | 'IQ2_XS'
+  | 'IQ2_XXS'
+  | 'IQ1_M'
+  | 'IQ1_S'
+  | 'GPTQ'
+  | 'AWQ'
+  | 'EXL2'
+  | 'EXL3'
+  | 'MXFP4'
+  | 'NVFP4';
+
+export type QuantizationFamily = 'float' | 'gguf' | 'iquant' | 'gptq-awq' | 'exl' | 'microscaling';
+
+export interface QuantizationFormat {
+  id: QuantizationType;
+  label: string;
+  description: string;
+  family: QuantizationFamily;
+  bitsPerWeight: number; // incl. scales; for per-group formats the bits before group overhead
+  groupSize?: number; // default weights per scale/zero group (GPTQ, AWQ)
+  bpwRange?: [number, number]; // formats quantized to any rate (EXL2, EXL3)
+  vendors: GPUInfo['vendor'][];
+  runtimes: InferenceRuntime[];
+  architectures?: string[]; // GPU generations with hardware support; absent = any
+}
+
+// Quality loss vs. FP16 weights
+export interface QualityLoss {
+  perplexityDeltaPct: number; // perplexity increase, %
+  kld: number; // mean KL divergence of the next-token distribution
+}
+
+// Tunable settings of formats that have them
+export interface QuantizationParams {
+  bitsPerWeight?: number; // EXL2/EXL3 target rate
+  groupSize?: number; // GPTQ/AWQ group size
+}
+
+export type InferenceRuntime =
+  | 'llama.cpp'
+  | 'ollama'
+  | 'vllm'
+  | 'mlx'
+  | 'exllamav2'
+  | 'tensorrt-llm';
+
+// How a runtime reserves memory for the KV cache
+export type KVAllocationStrategy =
+  | 'contiguous' // full context allocated up front (llama.cpp, ExLlamaV2)
+  | 'paged' // fixed-size blocks from a pre-allocated pool (vLLM, TensorRT-LLM)
+  | 'dynamic'; // grows with the sequence (MLX)
+
+export interface RuntimeProfile {
+  id: InferenceRuntime;
+  name: string;
+  description: string;
+  vendors: GPUInfo['vendor'][]; // GPU backends the runtime can use
+  frameworkOverheadGB: number; // CUDA/Metal/ROCm context + runtime itself
+  batchSize: number; // default tokens per forward pass (llama.cpp -ub), sizes the compute buffer
+  worstCaseGraph: boolean; // ggml reserves logits for the whole ubatch and lets flash attention be turned off
+  kvAllocation: KVAllocationStrategy;
+  kvBlockSize?: number; // tokens per block, for paged KV
+  gpuMemoryUtilization?: number; // fraction of VRAM the runtime claims up front
+  supportedKVCacheTypes: KVCacheType[];
+  supportsCPUOffload: boolean;
+  supportsSpeculative: boolean; // can verify tokens from a draft model
+  supportsExpertOffload: boolean; // can keep MoE routed experts in RAM and the rest on GPU
+  embeddingsInRAM: boolean; // token embedding stays in system RAM (llama.cpp's input layer)
+  streamsOffloadedWeights: boolean; // copies RAM-resident weights to the GPU for large prompt batches
+  speedEfficiency: number; // decode speed relative to llama.cpp
+}
+
+// KV cache element precision (llama.cpp --cache-type-k / --cache-type-v)
+export type KVCacheType = 'f16' | 'bf16' | 'q8_0' | 'q5_1' | 'q4_0' | 'fp8';
+
+export interface KVCacheConfig {
+  typeK: KVCacheType;
+  typeV: KVCacheType;
+}
+
+// Forward pass shape (llama.cpp -ub / -fa), sizes the compute buffer
+export interface ComputeBufferConfig {
+  ubatchSize?: number; // tokens per forward pass, the runtime's default when unset
+  flashAttention: boolean; // off materializes ubatch × context attention scores
+}
+
+// Images and audio clips sent with every request
+export interface MediaConfig {
+  images: number;
+  audioClips: number;
+}
+
+// Fine-tuning workload
+export type FineTuneMethod = 'full' | 'lora' | 'qlora';
+
+export type TrainingOptimizer = 'adamw' | 'adamw_8bit' | 'adafactor';
+
+export type LoRATargetModule = 'q_proj' | 'k_proj' | 'v_proj' | 'o_proj' | 'gate_proj' | 'up_proj' | 'down_proj';
+
+export interface TrainingConfig {
+  method: FineTuneMethod;
+  optimizer: TrainingOptimizer;
+  batchSize: number; // micro-batch per step
+  sequenceLength: number;
+  gradientCheckpointing: boolean;
+  loraRank: number;
+  loraTargets: LoRATargetModule[];
+}
+
+// Multi-user serving workload
+export interface ServingConfig {
+  concurrentSequences: number; // requests in flight
+  avgPromptTokens: number;
+  avgOutputTokens: number;
+  maxBatchSize: number; // sequences decoded together per step (--parallel, max_num_seqs)
+}
+
+// Speculative decoding: a small draft model proposes tokens the target verifies in one pass
+export interface SpeculativeConfig {
+  draftModel: ModelConfig;
+  draftTokens: number; // tokens proposed per step (--draft-max, num_speculative_tokens)
+  acceptanceRate: number; // 0-1, chance each drafted token is accepted
+}
+
+// Power and price inputs for the energy estimate
+export interface EnergyConfig {
+  electricityPrice: number; // per kWh
+  gpuUtilization: number; // share of TDP a busy GPU draws while generating
+  systemBaseWatts: number; // CPU idle, board, RAM, drives and PSU losses
+  cpuLoadWatts: number; // extra CPU draw while it runs offloaded layers
+}
+
+// Cloud GPU instance rented by the hour
+export interface CloudInstance {
+  id: string;
+  provider: string;
+  gpu: GPUInfo;
+  gpuCount: number;
+  nvlink?: boolean; // SXM boards share an NVLink switch
+  hourlyPrice: number; // USD
+}
+
+// User edits on top of the bundled prices, by instance id and GPU name
+export interface PriceOverrides {
+  cloudHourly: Record<string, number>;
+  purchase: Record<string, number>;
+}
+
+// How the local rig is paid off
+export interface OwnershipConfig {
+  amortizationYears: number;
+  hoursPerDay: number; // hours of generation per day
+}
+
+// Measured speed from pasted llama-bench or `ollama run --verbose` output
+export type BenchmarkSource = 'llama-bench' | 'ollama';
+
+export interface BenchmarkMeasurement {
+  id: string;
+  source: BenchmarkSource;
+  modelName: string;
+  quantLabel: string; // as reported, e.g. "Q4_K - Medium"
+  gpu: GPUInfo;
+  weightsGB: number; // size of all weights
+  params: number; // billions
+  activeParams: number; // billions read per token
+  gpuLayerShare: number; // 0 = CPU only, 1 = all layers on GPU
+  promptTokensPerSec?: number;
+  genTokensPerSec?: number;
+}
+
+// Speed coefficients fitted from measurements of one GPU (or a whole vendor)
+export interface SpeedCalibration {
+  scope: 'gpu' | 'vendor';
+  key: string; // calibrationKey() of the GPU, or the vendor
+  decodeEfficiency?: number; // share of memory bandwidth reached reading the weights in llama.cpp
+  prefillMFU?: number; // share of peak FLOPs reached processing prompts
+  cpuSlowdown?: number; // how much slower offloaded layers decode than GPU layers
+  samples: number;
+}
+
+// Where MoE weights go when the model does not fit in VRAM
+export type MoEOffloadMode =
+  | 'layers' // whole layers to CPU, as for dense models (-ngl)
+  | 'experts'; // attention + shared experts on GPU, routed experts in RAM (--n-cpu-moe)
+
+export interface CalculationOptions {
+  runtime?: InferenceRuntime;
+  kvCache?: KVCacheConfig;
+  computeBuffer?: ComputeBufferConfig;
+  serving?: ServingConfig;
+  promptTokens?: number; // prompt length for prefill / time-to-first-token
+  speculative?: SpeculativeConfig;
+  moeOffload?: MoEOffloadMode;
+  quantParams?: QuantizationParams;
+  training?: TrainingConfig;
+  media?: MediaConfig;
+  calibrations?: SpeedCalibration[];
+}
 
 export type CompatibilityVerdict = 'full_gpu' | 'partial_offload' | 'cpu_only' | 'cannot_run';
 
+// How sure the verdict is once estimate ranges are taken into account:
+// 'likely_fits' = fits as expected but not at the high end, 'borderline' = only fits at the low end
+export type FitConfidence = 'confident' | 'likely_fits' | 'borderline';
+
+export interface EstimateRange {
+  low: number;
+  expected: number;
+  high: number;
+}
+
 export interface CalculationResult {
   verdict: CompatibilityVerdict;
   verdictLabel: string;
   verdictEmoji: string;
+  fitConfidence: FitConfidence;
+  runtime: RuntimeProfile;
+  kvCache: KVCacheConfig;
 
   // Memory breakdown (GB)
   modelMemoryGB: number;
   kvCacheMemoryGB: number;
-  systemOverheadGB: number;
+  systemOverheadGB: number; // framework context, one per GPU
+  computeBufferGB: number; // activations, logits and attention scratch of one forward pass
+  attentionScoresGB: number; // part of the compute buffer, 0 with flash attention
+  encoderMemoryGB: number; // vision/audio encoders on the main GPU
   totalRequiredGB: number;
-  availableVRAM: number;
-  availableRAM: number;
+  totalRequiredRange: EstimateRange; // from the bpw spread and overhead range
+  availableVRAM: number; // after reserved VRAM
+  availableRAM: number; // after reserved RAM
+  reservedVRAMGB: number; // display, desktop and other apps across all GPUs
+  reservedRAMGB: number; // OS and other apps
 
   // Layer offloading
   totalLayers: number;
   layersOnGPU: number;
   layersOnCPU: number;
+  outputOnGPU: boolean; // output head, placed after every block fits (llama.cpp -ngl layers + 1)
+  embeddingGB: number; // token embedding, in RAM when the runtime keeps it there
+  outputHeadGB: number; // lm_head; a second copy of the embedding when tied and that stays in RAM
   offloadPercentage: number;
+  splitMode: GPUSplitMode;
+  devices: DeviceAllocation[];
+
+  // Multimodal inputs
+  mediaTokens: number; // image/audio tokens added to the context per request
 
   // Performance estimates
   estimatedTokensPerSec: number;
+  tokensPerSecRange: EstimateRange; // from the bpw spread and bandwidth efficiency range
   speedCategory: 'fast' | 'moderate' | 'slow' | 'very_slow';
+  promptTokens: number;
+  promptTokensPerSec: number; // prefill throughput
+  gpuMsPerToken: number; // single-stream decode time in GPU layers
+  cpuMsPerToken: number; // single-stream decode time in offloaded layers
+  linkMsPerToken: number; // decode time spent copying over PCIe/NVLink
+  weightStreaming: boolean; // prefill copies offloaded weights to the GPU
+  timeToFirstTokenSec: number;
+
+  // Serving mode (only when a serving workload is given)
+  serving?: ServingResult;
+
+  // Speculative decoding (only when a draft model is given)
+  speculative?: SpeculativeResult;
+
+  // MoE expert placement (only for MoE models in 'experts' mode)
+  expertOffload?: ExpertOffloadResult;
+
+  // Fine-tuning memory (only when a training workload is given)
+  training?: TrainingResult;
 
   // Recommendations
   recommendations: Recommendation[];
 }
 
+export interface TrainingResult {
+  trainableParams: number; // billions
+  weightsGB: number; // frozen base (LoRA/QLoRA) or trained weights (full)
+  adapterGB: number; // LoRA adapter weights
+  gradientsGB: number;
+  optimizerGB: number; // optimizer states + FP32 master weights
+  activationsGB: number;
+  overheadGB: number;
+  totalGB: number; // summed over every GPU
+  availableVRAM: number;
+  gpuCount: number;
+  perGPUGB: number; // sharded states plus one GPU's activations and overhead
+  smallestGPUGB: number; // usable VRAM of the smallest card
+  fits: boolean; // the per-GPU share fits the smallest card
+}
+
+export interface ServingResult {
+  activeSequences: number; // decoded together each step
+  queuedSequences: number; // waiting for a free slot
+  tokensPerSequence: number; // prompt + output held in KV
+  kvCachePerSequenceGB: number;
+  kvCacheTotalGB: number;
+  perUserTokensPerSec: number;
+  aggregateTokensPerSec: number;
+  boundBy: 'memory' | 'compute';
+  maxConcurrency: number; // sequences whose KV fits next to the weights in VRAM
+}
+
+export interface SpeculativeResult {
+  draftModelName: string;
+  draftMemoryGB: number; // draft weights + its KV cache, kept on the main GPU
+  draftTokensPerSec: number;
+  tokensPerStep: number; // expected tokens produced per verification pass
+  speedup: number; // vs. decoding with the target model alone
+  effectiveTokensPerSec: number;
+  vocabMismatch?: string; // why the draft's tokens cannot be verified by the target
+}
+
+export interface ExpertOffloadResult {
+  attentionGB: number; // attention, embeddings, norms and routers — always on GPU
+  sharedExpertsGB: number; // shared experts and dense FFN layers, read by every token
+  routedExpertsGB: number; // only numActiveExperts of numExperts read per token
+  routedOnCPUGB: number;
+  moeLayers: number;
+  expertLayersOnCPU: number; // MoE layers whose routed experts stay in RAM (--n-cpu-moe)
+}
+
+// A candidate rig from the hardware recommender that meets the speed target
+export interface RigRecommendation {
+  name: string;
+  hardware: HardwareConfig;
+  gpuCount: number;
+  totalMemoryGB: number;
+  requiredGB: number;
+  headroomGB: number; // usable VRAM left after weights, KV cache and overhead
+  tokensPerSec: number;
+}
+
+// Power draw during generation and what a million tokens costs
+export interface EnergyResult {
+  gpuWatts: number;
+  cpuWatts: number; // base load plus offloaded work
+  totalWatts: number;
+  tokensPerSec: number; // aggregate in serving mode
+  joulesPerToken: number | null; // null when nothing is generated
+  kWhPerMillionTokens: number | null;
+  costPerMillionTokens: number | null;
+  tdpEstimated: boolean; // some GPU had no TDP and was sized from its bandwidth
+}
+
+// A cloud instance that runs the model fully on GPU
+export interface CloudOption {
+  instance: CloudInstance;
+  name: string;
+  tokensPerSec: number; // aggregate in serving mode
+  costPerMillionTokens: number;
+}
+
+// Cheapest cloud setup against the local rig's amortized and electricity cost
+export interface CostComparison {
+  cloudOptions: CloudOption[]; // cheapest per million tokens first
+  localPurchasePrice: number | null; // null until every card has a price
+  unpricedGPUs: string[]; // cards with no bundled or entered price
+  localAmortizedPerMillion: number | null; // at the configured hours per day
+  localElectricityPerMillion: number | null; // null when the rig generates nothing
+  localTotalPerMillion: number | null;
+  breakEvenMillionTokensPerMonth: number | null; // null when the cloud is cheaper per token or a price is missing
+  breakEvenHoursPerDay: number | null;
+}
+
+// Largest context keeping each verdict tier (null when even the smallest doesn't)
+export interface ContextLimits {
+  fullGPU: number | null;
+  partialOffload: number | null;
+  maxContextLength: number;
+}
+
+// One point on the quality / speed / context trade-off found by the optimizer
+export interface OptimizedConfig {
+  quantization: QuantizationType;
+  quantParams: QuantizationParams;
+  contextLength: number;
+  moeOffload: MoEOffloadMode;
+  verdict: CompatibilityVerdict;
+  tokensPerSec: number;
+  totalRequiredGB: number;
+  qualityLoss: QualityLoss;
+}
+
+export interface DeviceAllocation {
+  name: string;
+  vendor: GPUInfo['vendor'];
+  layers: number; // whole layers (layer split) or sliced layers (tensor/row split)
+  memoryGB: number; // weights + KV + runtime overhead placed on this GPU
+  capacityGB: number;
+  isBottleneck: boolean; // spends the most time per generated token
+  link: string; // e.g. "PCIe 4.0 x16"
+  linkBound: boolean; // copies over this GPU's link cost a large share of the token or prompt time
+}
+
 export interface Recommendation {
   type: 'quantization' | 'context' | 'hardware' | 'model' | 'tip';
   title: string;
@@ -5,47 +5,168 @@ import type {
     CalculationResult,
     CompatibilityVerdict,
     Recommendation,
+    CalculationOptions,
+    RuntimeProfile,
+    KVCacheType,
+    KVCacheConfig,
+    ComputeBufferConfig,
+    GPUInfo,
+    GPUDevice,
+    DeviceAllocation,
+    SpeculativeConfig,
+    SpeculativeResult,
+    MoEOffloadMode,
+    ExpertOffloadResult,
+    QuantizationParams,
+    QuantizationFormat,
+    QualityLoss,
+    InferenceRuntime,
+    FitConfidence,
+    EstimateRange,
+    MediaConfig,
 } from '../types';
+import { getRuntimeProfile } from '../data/runtimeProfiles';
+import { DEFAULT_RESERVED_RAM_GB } from '../data/memoryReserves';
+import {
+    QUANTIZATION_FORMATS,
+    QUANTIZATION_QUALITY,
+    QUALITY_BY_BPW,
+    BPW_SPREAD,
+    getQuantizationFormat,
+    isFormatSupportedOnGPU,
+} from '../data/quantizations';
+import { distributeLayers, estimateSplitTimes } from './gpuSplit';
+import type { SplitTarget, LayerPlacement } from './gpuSplit';
+import { estimateServing } from './serving';
+import { estimateTraining } from './training';
+import { splitMoEParams, placeRoutedExperts } from './moeOffload';
+import { calcEncoderMemory, countMediaTokens, getMediaModalities } from './multimodal';
+import { getHeadDim, splitReadParams, splitTensorParams } from './tensorLayout';
+import {
+    CPU_SPEED_PENALTY,
+    CPU_PREFILL_TFLOPS,
+    DEFAULT_DECODE_EFFICIENCY,
+    FLOPS_PER_BYTE,
+    PREFILL_MFU,
+    getComputeTFLOPs,
+    resolveCalibration,
+} from './calibration';
+import { getCPUDecodeBandwidth, getCPUMatmulTFLOPs } from './cpu';
+import { describeLink, estimateLinkTraffic, findLinkBound } from './interconnect';
+import { formatWiredLimitCommand, getGPULimitGB, getMaxGPULimitGB } from './unifiedMemory';
+import type { MoETensorGroups } from './moeOffload';
 
 // ============================================================================
-// Quantization multipliers (relative to FP16)
+// Quantization
 // ============================================================================
 
-const QUANTIZATION_BPW: Record<QuantizationType, number> = {
-    FP32: 32,
-    FP16: 16,
-    Q8_0: 8.5,
-    Q6_K: 6.57,
-    Q5_K_M: 5.69,
-    Q5_0: 5.5,
-    Q4_K_M: 4.85,
-    Q4_0: 4.5,
-    Q3_K_M: 3.91,
-    Q3_K_S: 3.5,
-    Q2_K: 3.35,
+const GROUP_SCALE_ZERO_BITS = 20; // FP16 scale + 4-bit zero point per GPTQ/AWQ group
+
+/**
+ * Bits per weight of a format, using the chosen rate for EXL2/EXL3 and
+ * adding the per-group scale and zero point for GPTQ/AWQ
+ */
+export function getBitsPerWeight(quantization: QuantizationType, params: QuantizationParams = {}): number {
+    const format = getQuantizationFormat(quantization);
+    if (format.bpwRange) {
+        const [min, max] = format.bpwRange;
+        return Math.max(min, Math.min(max, params.bitsPerWeight ?? format.bitsPerWeight));
+    }
+    if (format.groupSize) {
+        return format.bitsPerWeight + GROUP_SCALE_ZERO_BITS / (params.groupSize ?? format.groupSize);
+    }
+    return format.bitsPerWeight;
+}
+
+/**
+ * Quality loss of a format — interpolated over bits per weight for EXL2/EXL3
+ * (log scale, loss falls roughly exponentially with bits) and scaled with
+ * group size for GPTQ/AWQ
+ */
+export function estimateQualityLoss(quantization: QuantizationType, params: QuantizationParams = {}): QualityLoss {
+    const curve = QUALITY_BY_BPW[quantization];
+    if (curve) {
+        const bpw = getBitsPerWeight(quantization, params);
+        const upper = curve.findIndex((point) => point.bpw >= bpw);
+        if (upper === 0) return curve[0].loss;
+        if (upper === -1) return curve[curve.length - 1].loss;
+
+        const lo = curve[upper - 1];
+        const hi = curve[upper];
+        const t = (bpw - lo.bpw) / (hi.bpw - lo.bpw);
+        const lerp = (a: number, b: number) => Math.exp(Math.log(a) + (Math.log(b) - Math.log(a)) * t);
+        return {
+            perplexityDeltaPct: lerp(lo.loss.perplexityDeltaPct, hi.loss.perplexityDeltaPct),
+            kld: lerp(lo.loss.kld, hi.loss.kld),
+        };
+    }
+
+    const loss = QUANTIZATION_QUALITY[quantization];
+    const format = getQuantizationFormat(quantization);
+    if (format.groupSize && params.groupSize) {
+        const scale = Math.sqrt(params.groupSize / format.groupSize);
+        return { perplexityDeltaPct: loss.perplexityDeltaPct * scale, kld: loss.kld * scale };
+    }
+    return loss;
+}
+
+/**
+ * Formats the runtime offers and every GPU in the rig can run
+ */
+export function getUsableQuantizations(hardware: HardwareConfig, runtimeId: InferenceRuntime): QuantizationFormat[] {
+    return QUANTIZATION_FORMATS.filter(
+        (q) => q.runtimes.includes(runtimeId) && hardware.gpus.every((d) => isFormatSupportedOnGPU(q, d.gpu))
+    );
+}
+
+// ============================================================================
+// KV cache precision (bits per element, including block scales)
+// ============================================================================
+
+const KV_CACHE_BITS: Record<KVCacheType, number> = {
+    f16: 16,
+    bf16: 16,
+    q8_0: 8.5,
+    q5_1: 6,
+    q4_0: 4.5,
+    fp8: 8,
 };
 
-export const QUANTIZATION_OPTIONS: { value: QuantizationType; label: string; description: string }[] = [
-    { value: 'FP32', label: 'FP32 (Full)', description: 'Full precision — best quality, most memory' },
-    { value: 'FP16', label: 'FP16 (Half)', description: 'Half precision — standard baseline' },
-    { value: 'Q8_0', label: 'Q8_0', description: '8-bit — near-lossless quality' },
-    { value: 'Q6_K', label: 'Q6_K', description: '6-bit — excellent quality' },
-    { value: 'Q5_K_M', label: 'Q5_K_M', description: '5-bit — very good quality' },
-    { value: 'Q5_0', label: 'Q5_0', description: '5-bit — good quality' },
-    { value: 'Q4_K_M', label: 'Q4_K_M ★', description: '4-bit — best balance of quality and size' },
-    { value: 'Q4_0', label: 'Q4_0', description: '4-bit — good balance' },
-    { value: 'Q3_K_M', label: 'Q3_K_M', description: '3-bit — noticeable quality loss' },
-    { value: 'Q3_K_S', label: 'Q3_K_S', description: '3-bit small — significant quality loss' },
-    { value: 'Q2_K', label: 'Q2_K', description: '2-bit — extreme compression, poor quality' },
+export const KV_CACHE_OPTIONS: { value: KVCacheType; label: string; description: string }[] = [
+    { value: 'f16', label: 'F16', description: 'Default — full quality' },
+    { value: 'bf16', label: 'BF16', description: 'Same size as F16, wider range' },
+    { value: 'q8_0', label: 'Q8_0', description: '8-bit — negligible quality loss' },
+    { value: 'fp8', label: 'FP8', description: '8-bit float — vLLM / TensorRT-LLM' },
+    { value: 'q5_1', label: 'Q5_1', description: '5-bit — small quality loss' },
+    { value: 'q4_0', label: 'Q4_0', description: '4-bit — noticeable loss, best on V' },
+];
+
+// ============================================================================
+// MoE offload strategies
+// ============================================================================
+
+export const MOE_OFFLOAD_OPTIONS: { value: MoEOffloadMode; label: string; description: string }[] = [
+    { value: 'layers', label: 'Whole Layers', description: 'Offload complete layers to CPU (-ngl)' },
+    { value: 'experts', label: 'Experts to RAM', description: 'Attention + shared experts on GPU, routed experts in RAM (--n-cpu-moe)' },
 ];
 
 // ============================================================================
 // Constants
 // ============================================================================
 
-const GPU_FRAMEWORK_OVERHEAD_GB = 0.5; // CUDA/Metal/ROCm framework
-const APPLE_SILICON_USABLE_RATIO = 0.75; // ~75% of unified memory usable for ML
-const CPU_SPEED_PENALTY = 4; // CPU inference is ~4x slower than GPU
+export const DEFAULT_KV_CACHE: KVCacheConfig = { typeK: 'f16', typeV: 'f16' };
+
+export const DEFAULT_COMPUTE_BUFFER: ComputeBufferConfig = { flashAttention: true };
+
+export const DEFAULT_RUNTIME: InferenceRuntime = 'llama.cpp';
+const COMPUTE_BUFFER_BYTES_PER_VALUE = 4; // activations are kept in FP32
+const DEFAULT_PROMPT_TOKENS = 2048;
+const MAX_DRAFT_VOCAB_DIFFERENCE = 128; // llama.cpp accepts vocabularies that differ only by padding
+const MIN_DECODE_STEP_SEC = 0.002; // kernel launches and sampling, dominant for tiny draft models
+const OVERHEAD_RANGE = [0.75, 1.5]; // runtime overhead varies with driver, backend and build
+const SPEED_EFFICIENCY_RANGE = [0.7, 1.15]; // share of the expected bandwidth kernels actually reach
+const MIN_TOKENS_PER_SEC = 0.5;
+const MAX_TOKENS_PER_SEC = 200;
 
 // ============================================================================
 // Core calculations
@@ -54,69 +175,377 @@ const CPU_SPEED_PENALTY = 4; // CPU inference is ~4x slower than GPU
 /**
  * Calculate model weight memory in GB
  */
-function calcModelMemory(model: ModelConfig, quantization: QuantizationType): number {
-    const bpw = QUANTIZATION_BPW[quantization];
+function calcModelMemory(model: ModelConfig, quantization: QuantizationType, params: QuantizationParams = {}): number {
+    const bpw = getBitsPerWeight(quantization, params);
     const effectiveParams = model.isMoE && model.activeParams
         ? model.params // MoE: full model must be in memory
         : model.params;
     return (effectiveParams * 1e9 * bpw) / 8 / 1e9;
 }
 
+interface WeightLayout {
+    blockGB: number; // repeating blocks, placed layer by layer
+    embeddingGB: number;
+    outputHeadGB: number; // on GPU only once every block is
+    ramResidentGB: number; // never needs VRAM
+    totalGB: number;
+}
+
 /**
- * Calculate KV cache memory for a given context length
- * KV cache = 2 × layers × kv_heads × head_dim × context × bytes_per_element
+ * Weight memory by tensor group for a runtime. llama.cpp keeps the token
+ * embedding in RAM and loads a tied output head as a second copy, so it can
+ * be offloaded like an untied one; other runtimes keep everything on GPU.
  */
-function calcKVCache(model: ModelConfig, contextLength: number, kvQuantBits: number = 16): number {
-    const headDim = model.hiddenSize / model.numAttentionHeads;
-    const bytesPerElement = kvQuantBits / 8;
-    const kvCacheBytes =
-        2 * model.layers * model.numKVHeads * headDim * contextLength * bytesPerElement;
-    return kvCacheBytes / 1e9; // GB
+function calcWeightLayout(
+    model: ModelConfig,
+    quantization: QuantizationType,
+    params: QuantizationParams,
+    runtime: RuntimeProfile
+): WeightLayout {
+    const gbPerParam = calcModelMemory(model, quantization, params) / model.params;
+    const tensors = splitTensorParams(model);
+    const outputHead = tensors.outputHead || (runtime.embeddingsInRAM ? tensors.embedding : 0);
+    const blockGB = tensors.blocks * gbPerParam;
+    const embeddingGB = tensors.embedding * gbPerParam;
+    const outputHeadGB = outputHead * gbPerParam;
+    return {
+        blockGB,
+        embeddingGB,
+        outputHeadGB,
+        ramResidentGB: runtime.embeddingsInRAM ? embeddingGB : 0,
+        totalGB: blockGB + embeddingGB + outputHeadGB,
+    };
 }
 
 /**
- * Get available VRAM based on hardware config
+ * Count layers using sliding-window (local) attention
  */
-function getAvailableVRAM(hardware: HardwareConfig): number {
-    if (hardware.customVRAM) return hardware.customVRAM;
+function countLocalLayers(model: ModelConfig): number {
+    const pattern = model.attentionPattern;
+    if (!model.slidingWindow || !pattern || pattern.length === 0) return 0;
 
-    if (hardware.isAppleSilicon && hardware.gpu) {
-        return hardware.gpu.memorySize * APPLE_SILICON_USABLE_RATIO;
+    let localLayers = 0;
+    for (let i = 0; i < model.layers; i++) {
+        if (pattern[i % pattern.length] === 'local') localLayers++;
     }
+    return localLayers;
+}
 
-    if (hardware.gpu) {
-        return hardware.gpu.memorySize * hardware.gpuCount;
+/**
+ * Calculate KV cache memory for a given context length.
+ * Global layers cache the full context and local layers at most the window.
+ *   GQA: kv_heads × head_dim × cached_tokens × (bytes_K + bytes_V)
+ *   MLA: (kv_lora_rank + qk_rope_head_dim) × cached_tokens × bytes_K
+ *        — one shared latent per token, V is reconstructed from it
+ */
+function calcKVCache(model: ModelConfig, contextLength: number, kvCache: KVCacheConfig = DEFAULT_KV_CACHE): number {
+    const localLayers = countLocalLayers(model);
+    const globalLayers = model.layers - localLayers;
+    const localContext = Math.min(contextLength, model.slidingWindow ?? contextLength);
+    const cachedTokens = globalLayers * contextLength + localLayers * localContext;
+
+    let kvCacheBytes: number;
+    switch (model.attentionType ?? 'gqa') {
+        case 'mla': {
+            const latentDim = (model.kvLoraRank ?? 512) + (model.qkRopeHeadDim ?? 64);
+            kvCacheBytes = latentDim * cachedTokens * (KV_CACHE_BITS[kvCache.typeK] / 8);
+            break;
+        }
+        case 'gqa': {
+            const headDim = getHeadDim(model);
+            const bytesPerElement = (KV_CACHE_BITS[kvCache.typeK] + KV_CACHE_BITS[kvCache.typeV]) / 8;
+            kvCacheBytes = model.numKVHeads * headDim * cachedTokens * bytesPerElement;
+            break;
+        }
     }
+    return kvCacheBytes / 1e9; // GB
+}
+
+/**
+ * Context length the runtime actually reserves KV for.
+ * Paged allocators hand out whole blocks, so the last one is rounded up.
+ */
+function getAllocatedContext(contextLength: number, runtime: RuntimeProfile): number {
+    if (runtime.kvAllocation === 'paged' && runtime.kvBlockSize) {
+        return Math.ceil(contextLength / runtime.kvBlockSize) * runtime.kvBlockSize;
+    }
+    return contextLength;
+}
+
+/**
+ * Widest attention any layer computes: the full context unless every layer
+ * uses a sliding window
+ */
+function getAttentionSpan(model: ModelConfig, contextLength: number): number {
+    if (countLocalLayers(model) < model.layers) return contextLength;
+    return Math.min(contextLength, model.slidingWindow ?? contextLength);
+}
+
+/**
+ * Attention scores of one layer, ubatch × span × heads in FP32. Without flash
+ * attention ggml materializes them, so they grow with batch and context.
+ */
+function calcAttentionScores(model: ModelConfig, runtime: RuntimeProfile, contextLength: number, config: ComputeBufferConfig): number {
+    if (config.flashAttention || !runtime.worstCaseGraph) return 0;
+    const ubatch = config.ubatchSize ?? runtime.batchSize;
+    const scores = ubatch * getAttentionSpan(model, contextLength) * model.numAttentionHeads;
+    return (scores * COMPUTE_BUFFER_BYTES_PER_VALUE) / 1e9;
+}
+
+/**
+ * Scratch buffer for one forward pass: residual stream, attention
+ * projections and MLP activations for ubatch tokens. ggml also reserves
+ * logits for every token of the ubatch and, without flash attention, the
+ * attention scores; other runtimes use fused attention and sample only the
+ * last token.
+ */
+function calcComputeBuffer(model: ModelConfig, runtime: RuntimeProfile, contextLength: number, config: ComputeBufferConfig): number {
+    const ubatch = config.ubatchSize ?? runtime.batchSize;
+    const logitsPerToken = runtime.worstCaseGraph ? model.vocabSize ?? 0 : 0;
+    const valuesPerToken = model.hiddenSize * 2 + model.intermediateSize + logitsPerToken;
+    const activationsGB = (ubatch * valuesPerToken * COMPUTE_BUFFER_BYTES_PER_VALUE) / 1e9;
+    return activationsGB + calcAttentionScores(model, runtime, contextLength, config);
+}
+
+/**
+ * Framework overhead, one context per GPU
+ */
+function calcSystemOverhead(runtime: RuntimeProfile, gpuCount: number = 1): number {
+    return runtime.frameworkOverheadGB * Math.max(1, gpuCount);
+}
+
+interface GPUCapacity {
+    gpu: GPUInfo;
+    device: GPUDevice; // slot and split settings
+    memoryGB: number; // usable by the runtime
+    reservedGB: number; // held by other programs
+    ratio: number; // normalized split share
+}
 
-    return 0;
+/**
+ * Memory of one GPU and what other programs hold of it. A custom override
+ * replaces the rig total, spread by each GPU's spec.
+ */
+function getDeviceMemory(hardware: HardwareConfig, device: GPUDevice, scale: number): { memoryGB: number; reservedGB: number } {
+    let memoryGB = device.gpu.memorySize * scale;
+    // macOS only lets the GPU wire part of a Mac's unified memory
+    if (hardware.isAppleSilicon && !hardware.customVRAM) memoryGB = getGPULimitGB(memoryGB, hardware.appleGPULimitGB);
+    const reservedGB = hardware.isAppleSilicon ? 0 : Math.min(device.reservedVRAMGB ?? 0, memoryGB);
+    return { memoryGB, reservedGB };
+}
+
+function getVRAMScale(hardware: HardwareConfig, devices: GPUDevice[]): number {
+    const specTotal = devices.reduce((sum, d) => sum + d.gpu.memorySize, 0);
+    return hardware.customVRAM && specTotal > 0 ? hardware.customVRAM / specTotal : 1;
+}
+
+function splitShare(device: GPUDevice): number {
+    const ratio = device.splitRatio ?? device.gpu.memorySize;
+    return Number.isFinite(ratio) && ratio > 0 ? ratio : 0;
+}
+
+/**
+ * Usable memory and split share of every GPU the runtime can drive
+ */
+function getGPUCapacities(hardware: HardwareConfig, runtime: RuntimeProfile): GPUCapacity[] {
+    // GPUs the runtime has no backend for are not used
+    const devices = hardware.gpus.filter((d) => runtime.vendors.includes(d.gpu.vendor));
+    if (devices.length === 0) return [];
+
+    const utilization = runtime.gpuMemoryUtilization ?? 1;
+    const scale = getVRAMScale(hardware, devices);
+    // A zero ratio keeps a card out of the split; all zero falls back to VRAM
+    const ratioTotal = devices.reduce((sum, d) => sum + splitShare(d), 0);
+    const share = (d: GPUDevice) => (ratioTotal > 0 ? splitShare(d) : d.gpu.memorySize);
+    const shareTotal = devices.reduce((sum, d) => sum + share(d), 0);
+
+    return devices.map((d) => {
+        const { memoryGB, reservedGB } = getDeviceMemory(hardware, d, scale);
+        return {
+            gpu: d.gpu,
+            device: d,
+            // VRAM other programs hold is gone whatever share the runtime claims,
+            // since vLLM-style utilization is a share of the whole card
+            memoryGB: Math.min(memoryGB * utilization, memoryGB - reservedGB),
+            reservedGB,
+            ratio: shareTotal > 0 ? share(d) / shareTotal : 1 / devices.length,
+        };
+    });
 }
 
 /**
- * Estimate tokens per second based on hardware
+ * VRAM a training framework gets on every GPU: the card less what other
+ * programs hold, whatever inference runtime is selected
  */
-function estimateTokensPerSec(
+function getTrainingVRAM(hardware: HardwareConfig): number[] {
+    const scale = getVRAMScale(hardware, hardware.gpus);
+    return hardware.gpus.map((d) => {
+        const { memoryGB, reservedGB } = getDeviceMemory(hardware, d, scale);
+        return memoryGB - reservedGB;
+    });
+}
+
+/**
+ * Get available VRAM based on hardware config
+ */
+function getAvailableVRAM(hardware: HardwareConfig, runtime: RuntimeProfile): number {
+    return getGPUCapacities(hardware, runtime).reduce((sum, c) => sum + c.memoryGB, 0);
+}
+
+/**
+ * System RAM left for offloaded layers after the OS and other apps
+ */
+function getAvailableRAM(hardware: HardwareConfig): number {
+    return Math.max(0, hardware.systemRAM - getReservedRAM(hardware));
+}
+
+function getReservedRAM(hardware: HardwareConfig): number {
+    return Math.min(hardware.reservedRAMGB ?? DEFAULT_RESERVED_RAM_GB, hardware.systemRAM);
+}
+
+function round2(value: number): number {
+    return Math.round(value * 100) / 100;
+}
+
+/**
+ * Round to 0.1 tok/s and clamp to a plausible range
+ */
+function clampTokensPerSec(tokensPerSec: number): number {
+    return Math.max(MIN_TOKENS_PER_SEC, Math.min(MAX_TOKENS_PER_SEC, Math.round(tokensPerSec * 10) / 10));
+}
+
+// Bytes read per parameter, the quantized size on every device, and the CPU
+// slowdown: a fixed penalty by default, a fitted slowdown once calibrated.
+// With a known CPU, offloaded layers are read at its RAM bandwidth instead of the penalty.
+interface DecodeModel {
+    bytesPerParam: number;
+    cpuSlowdown: number;
+    cpuBandwidth?: number;
+}
+
+// Time one generated token spends in each part of the rig
+interface DecodeTime {
+    gpuSec: number;
+    cpuSec: number;
+    linkSec: number;
+}
+
+/**
+ * Estimate single-stream decode time per token based on hardware, from the
+ * parameters each token reads on GPU and on CPU (splitReadParams) and the
+ * time spent copying over PCIe/NVLink. Each device reads its own weights
+ * one after the other, so the times add up: offloading whole layers puts
+ * every weight of those layers on the CPU, offloading routed experts only
+ * the few experts a token picks.
+ */
+function estimateDecodeTime(
     hardware: HardwareConfig,
+    runtime: RuntimeProfile,
+    gpuBandwidth: number,
+    readParams: { gpuParams: number; cpuParams: number },
+    decode: DecodeModel,
+    linkSec: number = 0
+): DecodeTime {
+    // Very rough: time ≈ bytes read / bandwidth on each device.
+    // With several GPUs this is the effective bandwidth of the split.
+    let bandwidth = gpuBandwidth || 50;
+
+    if (hardware.isAppleSilicon) {
+        // Apple Silicon is competitive for its bandwidth
+        bandwidth = gpuBandwidth || 100;
+    }
+
+    const { gpuParams, cpuParams } = readParams;
+    const gpuTime = (gpuParams * decode.bytesPerParam) / bandwidth;
+    const cpuTime = decode.cpuBandwidth
+        ? (cpuParams * decode.bytesPerParam) / decode.cpuBandwidth
+        : (cpuParams * decode.cpuSlowdown * decode.bytesPerParam) / bandwidth;
+    return { gpuSec: gpuTime / runtime.speedEfficiency, cpuSec: cpuTime / runtime.speedEfficiency, linkSec };
+}
+
+function decodeTokensPerSec(time: DecodeTime): number {
+    return 1 / (time.gpuSec + time.cpuSec + time.linkSec);
+}
+
+/**
+ * Parameters read per token with MoE routed experts partly in RAM: every
+ * token reads attention, shared experts and the output head from VRAM, but
+ * only the active share of the routed experts — from VRAM or RAM, depending
+ * on the layer. The embedding lookup reads nothing.
+ */
+function expertOffloadReadParams(
+    model: ModelConfig,
+    groups: MoETensorGroups,
+    expertLayersOnCPU: number
+): { gpuParams: number; cpuParams: number } {
+    const tensors = splitTensorParams(model);
+    const activeShare = (model.numActiveExperts ?? 1) / (model.numExperts ?? 1);
+    const cpuShare = expertLayersOnCPU / groups.moeLayers;
+    const activeRouted = groups.routedExperts * activeShare;
+    const attention = groups.attention - tensors.embedding - tensors.outputHead + (tensors.outputHead || tensors.embedding);
+    return {
+        gpuParams: attention + groups.sharedExperts + activeRouted * (1 - cpuShare),
+        cpuParams: activeRouted * cpuShare,
+    };
+}
+
+/**
+ * Prompt processing (prefill) is compute-bound: weights are read once per
+ * batch, so each token costs 2 × active_params FLOPs for the matmuls plus
+ * attention over the prompt so far (2 × layers × hidden × prompt on average).
+ * Offloaded layers run at CPU speed, or on the GPU once their weights are
+ * streamed over PCIe (streamSec per token); activation copies add transferSec.
+ */
+function estimatePrefillTokensPerSec(
     model: ModelConfig,
+    promptTokens: number,
+    gpuTFLOPs: number,
+    cpuTFLOPs: number,
     layersOnGPU: number,
-    totalLayers: number
+    totalLayers: number,
+    link: { transferSec: number; streamSec: number | null } = { transferSec: 0, streamSec: null }
 ): number {
     const gpuRatio = layersOnGPU / totalLayers;
-    const effectiveParams = model.isMoE && model.activeParams ? model.activeParams : model.params;
+    const activeParams = model.isMoE && model.activeParams ? model.activeParams : model.params;
+    const flopsPerToken = 2 * activeParams * 1e9 + 2 * model.layers * model.hiddenSize * promptTokens;
 
-    // Base estimate: bandwidth / model_size gives rough tok/s
-    let bandwidth = hardware.gpu?.memoryBandwidth || 50;
+    const gpuTime = gpuRatio > 0 ? (gpuRatio * flopsPerToken) / (gpuTFLOPs * 1e12 * PREFILL_MFU) : 0;
+    const offloadFlops = (1 - gpuRatio) * flopsPerToken;
+    const cpuTime = link.streamSec !== null && gpuTFLOPs > 0
+        ? offloadFlops / (gpuTFLOPs * 1e12 * PREFILL_MFU) + link.streamSec
+        : offloadFlops / (cpuTFLOPs * 1e12);
+    return 1 / (gpuTime + cpuTime + link.transferSec);
+}
 
-    if (hardware.isAppleSilicon) {
-        // Apple Silicon is competitive for its bandwidth
-        bandwidth = hardware.gpu?.memoryBandwidth || 100;
+/**
+ * Why the target cannot verify the draft's tokens, if it can't. Vocabularies
+ * may differ by a little padding (Qwen 2.5 0.5B has 151,936 tokens, 72B 152,064).
+ */
+function checkDraftVocab(target: ModelConfig, draft: ModelConfig): string | undefined {
+    if (target.tokenizer && draft.tokenizer && target.tokenizer !== draft.tokenizer) {
+        return `${draft.name} uses the ${draft.tokenizer} tokenizer but ${target.name} uses ${target.tokenizer}.`;
     }
+    if (target.vocabSize && draft.vocabSize && Math.abs(target.vocabSize - draft.vocabSize) > MAX_DRAFT_VOCAB_DIFFERENCE) {
+        return `${draft.name} has a ${draft.vocabSize.toLocaleString()}-token vocabulary but ${target.name} has ${target.vocabSize.toLocaleString()}.`;
+    }
+    return undefined;
+}
 
-    // Very rough: tok/s ≈ bandwidth / (effective_params * 2 bytes)
-    const baseTokensPerSec = bandwidth / (effectiveParams * 2);
-    const adjustedTokensPerSec = baseTokensPerSec * gpuRatio + (baseTokensPerSec / CPU_SPEED_PENALTY) * (1 - gpuRatio);
-
-    // Clamp to reasonable range
-    return Math.max(0.5, Math.min(200, Math.round(adjustedTokensPerSec * 10) / 10));
+/**
+ * With γ drafted tokens each accepted with probability α, one verification
+ * pass yields (1 − α^(γ+1)) / (1 − α) tokens and costs γ draft steps plus a
+ * single target step — checking γ+1 tokens still reads the weights once.
+ */
+function estimateSpeculativeSpeedup(
+    config: SpeculativeConfig,
+    draftTokensPerSec: number,
+    targetTokensPerSec: number
+): { tokensPerStep: number; speedup: number } {
+    const gamma = Math.max(1, config.draftTokens);
+    const alpha = Math.max(0, Math.min(1, config.acceptanceRate));
+    const tokensPerStep = alpha >= 1 ? gamma + 1 : (1 - Math.pow(alpha, gamma + 1)) / (1 - alpha);
+    const stepTime = gamma / draftTokensPerSec + 1 / targetTokensPerSec;
+    return { tokensPerStep, speedup: tokensPerStep / (stepTime * targetTokensPerSec) };
 }
 
 function getSpeedCategory(tokPerSec: number): CalculationResult['speedCategory'] {
@@ -126,39 +555,245 @@ function getSpeedCategory(tokPerSec: number): CalculationResult['speedCategory']
     return 'very_slow';
 }
 
+/**
+ * Command-line / config spelling of a KV cache setting for the runtime
+ */
+function formatKVCacheFlags(runtime: RuntimeProfile, kvCache: KVCacheConfig): string {
+    switch (runtime.id) {
+        case 'llama.cpp':
+            return `--cache-type-k ${kvCache.typeK} --cache-type-v ${kvCache.typeV}`;
+        case 'ollama':
+            return `OLLAMA_KV_CACHE_TYPE=${kvCache.typeV}`;
+        case 'vllm':
+            return `--kv-cache-dtype ${kvCache.typeV}`;
+        default:
+            return `K=${kvCache.typeK}, V=${kvCache.typeV}`;
+    }
+}
+
+/**
+ * Pick the strongest 8-bit KV type the runtime offers, if any
+ */
+function getQuantizedKVCache(runtime: RuntimeProfile): KVCacheConfig | null {
+    const type = (['q8_0', 'fp8'] as KVCacheType[]).find((t) => runtime.supportedKVCacheTypes.includes(t));
+    return type ? { typeK: type, typeV: type } : null;
+}
+
 function generateRecommendations(
     model: ModelConfig,
     hardware: HardwareConfig,
+    runtime: RuntimeProfile,
     quantization: QuantizationType,
+    quantParams: QuantizationParams,
+    kvCache: KVCacheConfig,
     verdict: CompatibilityVerdict,
     contextLength: number,
     totalRequired: number,
     availableVRAM: number,
+    devices: DeviceAllocation[],
+    speculative: SpeculativeResult | undefined,
+    moeOffload: MoEOffloadMode,
+    expertOffload: ExpertOffloadResult | undefined,
+    media: MediaConfig | undefined,
+    mediaTokens: number,
+    attentionScoresGB: number,
+    reservedVRAMCostGB: number, // usable VRAM the reserves take away
+    ramResidentGB: number, // weights the runtime keeps in RAM whatever the offload
 ): Recommendation[] {
     const recs: Recommendation[] = [];
 
+    const unsupportedGPUs = hardware.gpus.filter((d) => !runtime.vendors.includes(d.gpu.vendor));
+    if (unsupportedGPUs.length > 0) {
+        const names = [...new Set(unsupportedGPUs.map((d) => d.gpu.name))].join(', ');
+        const vendors = [...new Set(unsupportedGPUs.map((d) => d.gpu.vendor.toUpperCase()))].join('/');
+        recs.push({
+            type: 'hardware',
+            title: `${runtime.name} does not support this GPU`,
+            description: `${runtime.name} has no ${vendors} backend, so your ${names} ${unsupportedGPUs.length > 1 ? 'are' : 'is'} not used. Pick a runtime such as llama.cpp that supports it.`,
+            impact: 'high',
+        });
+    }
+
+    const bottleneck = devices.find((d) => d.isBottleneck);
+    if (devices.length > 1 && bottleneck) {
+        const fastest = hardware.gpus.reduce((a, b) => (b.gpu.memoryBandwidth > a.gpu.memoryBandwidth ? b : a));
+        const slowest = hardware.gpus.find((d) => d.gpu.name === bottleneck.name);
+        if (slowest && slowest.gpu.memoryBandwidth < fastest.gpu.memoryBandwidth * 0.6) {
+            recs.push({
+                type: 'hardware',
+                title: `${bottleneck.name} limits generation speed`,
+                description: hardware.splitMode === 'layer'
+                    ? `Its ${bottleneck.layers} layers run at ${slowest.gpu.memoryBandwidth} GB/s vs ${fastest.gpu.memoryBandwidth} GB/s on the ${fastest.gpu.name}. Lower its split ratio so faster cards take more layers.`
+                    : `Every layer waits for its slice on the ${bottleneck.name} (${slowest.gpu.memoryBandwidth} GB/s). Give it a smaller split ratio or use layer split.`,
+                impact: 'medium',
+            });
+        }
+    }
+
+    const linkBound = devices.find((d) => d.linkBound);
+    if (linkBound) {
+        recs.push({
+            type: 'hardware',
+            title: `${linkBound.name} is held back by its ${linkBound.link} link`,
+            description: devices.length > 1 && hardware.splitMode !== 'layer'
+                ? `Tensor/row split exchanges partial results over every GPU's link on each layer. Move the card to a wider slot, bridge the GPUs with NVLink, or use layer split, which only hands off once per GPU.`
+                : `Activations${verdict === 'partial_offload' ? ' and offloaded weights' : ''} cross this slot on every token or prompt batch. Move the card off its riser into an x8 or x16 slot.`,
+            impact: 'medium',
+        });
+    }
+
+    const format = getQuantizationFormat(quantization);
+    if (!format.runtimes.includes(runtime.id)) {
+        const available = QUANTIZATION_FORMATS.filter((q) => q.runtimes.includes(runtime.id)).map((q) => q.id);
+        recs.push({
+            type: 'quantization',
+            title: `${format.label} is not available in ${runtime.name}`,
+            description: `${runtime.name} supports ${available.join(', ')}. Numbers shown assume an equivalent bits-per-weight format.`,
+            impact: 'medium',
+        });
+    }
+
+    const incapableGPUs = hardware.gpus.filter((d) => !isFormatSupportedOnGPU(format, d.gpu));
+    if (incapableGPUs.length > 0) {
+        const names = [...new Set(incapableGPUs.map((d) => d.gpu.name))].join(', ');
+        recs.push({
+            type: 'hardware',
+            title: `${format.label} is not supported on ${names}`,
+            description: format.architectures && format.vendors.includes(incapableGPUs[0].gpu.vendor)
+                ? `${format.label} needs hardware support (${format.architectures.join(', ')}). Choose an 8-bit integer or GGUF format instead.`
+                : `${format.label} only runs on ${format.vendors.map((v) => v.toUpperCase()).join('/')} GPUs.`,
+            impact: 'high',
+        });
+    }
+
+    const unsupportedKV = [kvCache.typeK, kvCache.typeV].filter((t) => !runtime.supportedKVCacheTypes.includes(t));
+    if (unsupportedKV.length > 0) {
+        recs.push({
+            type: 'tip',
+            title: `${runtime.name} does not support ${[...new Set(unsupportedKV)].join('/')} KV cache`,
+            description: `Available KV cache types: ${runtime.supportedKVCacheTypes.join(', ')}.`,
+            impact: 'medium',
+        });
+    }
+
+    if (speculative?.vocabMismatch) {
+        recs.push({
+            type: 'model',
+            title: `${speculative.draftModelName} cannot draft for ${model.name}`,
+            description: `${speculative.vocabMismatch} Drafted tokens would all be rejected — pick a draft model from the same family.`,
+            impact: 'high',
+        });
+    }
+
+    if (speculative && !runtime.supportsSpeculative) {
+        recs.push({
+            type: 'tip',
+            title: `${runtime.name} does not support speculative decoding`,
+            description: 'The draft model is counted in memory but will not be used. llama.cpp (--model-draft), vLLM or ExLlamaV2 can run it.',
+            impact: 'medium',
+        });
+    } else if (speculative && !speculative.vocabMismatch && speculative.speedup < 1) {
+        recs.push({
+            type: 'tip',
+            title: 'Draft model slows generation down',
+            description: `Each pass yields ~${speculative.tokensPerStep.toFixed(1)} tokens, not enough to pay for the ${speculative.draftModelName} steps. Use a smaller draft model or draft fewer tokens.`,
+            impact: 'medium',
+        });
+    }
+
+    if (model.isMoE && moeOffload === 'experts' && !runtime.supportsExpertOffload) {
+        recs.push({
+            type: 'tip',
+            title: `${runtime.name} cannot offload experts separately`,
+            description: 'Whole layers are offloaded instead. llama.cpp keeps attention on the GPU and routed experts in RAM with --n-cpu-moe.',
+            impact: 'medium',
+        });
+    } else if (model.isMoE && moeOffload !== 'experts' && verdict !== 'full_gpu' && runtime.supportsExpertOffload) {
+        recs.push({
+            type: 'tip',
+            title: 'Offload routed experts instead of layers',
+            description: `Only ${model.numActiveExperts ?? 1} of ${model.numExperts ?? 1} experts are read per token. Keeping attention and shared experts on the GPU and routed experts in RAM is much faster than offloading whole layers.`,
+            impact: 'high',
+        });
+    }
+
+    if (!runtime.supportsCPUOffload && verdict === 'cannot_run' && totalRequired <= availableVRAM + getAvailableRAM(hardware)) {
+        recs.push({
+            type: 'tip',
+            title: `${runtime.name} cannot offload to CPU`,
+            description: 'The model would fit with CPU offloading. llama.cpp or Ollama can split layers between GPU and system RAM.',
+            impact: 'high',
+        });
+    }
+
+    if (ramResidentGB > getAvailableRAM(hardware)) {
+        recs.push({
+            type: 'hardware',
+            title: `${runtime.name} keeps the token embedding in RAM`,
+            description: `The ${ramResidentGB.toFixed(1)}GB embedding needs system RAM, but only ${getAvailableRAM(hardware).toFixed(1)}GB is left after the ${getReservedRAM(hardware).toFixed(1)}GB reserved for the OS. Lower the reserve or add RAM.`,
+            impact: 'high',
+        });
+    }
+
     if (verdict === 'cannot_run') {
         recs.push({
             type: 'model',
             title: 'Try a smaller model',
-            description: `This model requires ${totalRequired.toFixed(1)}GB but you only have ${(availableVRAM + hardware.systemRAM).toFixed(1)}GB total. Consider a smaller model.`,
+            description: `This model requires ${totalRequired.toFixed(1)}GB but you only have ${(availableVRAM + getAvailableRAM(hardware)).toFixed(1)}GB total after reserved memory. Consider a smaller model.`,
             impact: 'high',
         });
     }
 
-    if (verdict !== 'full_gpu' && quantization !== 'Q4_K_M' && quantization !== 'Q3_K_M' && quantization !== 'Q2_K') {
-        const q4Memory = calcModelMemory(model, 'Q4_K_M') + calcKVCache(model, contextLength);
+    // Highest-quality format whose weights leave room for everything else in VRAM
+    if (verdict !== 'full_gpu') {
+        const otherMemory = totalRequired - calcModelMemory(model, quantization, quantParams);
+        const best = getUsableQuantizations(hardware, runtime.id)
+            .sort((a, b) => estimateQualityLoss(a.id).kld - estimateQualityLoss(b.id).kld)
+            .find((q) => calcModelMemory(model, q.id) + otherMemory <= availableVRAM);
+        if (best && best.id !== quantization) {
+            const bestTotal = calcModelMemory(model, best.id) + otherMemory;
+            recs.push({
+                type: 'quantization',
+                title: `Use ${best.id} quantization`,
+                description: `${best.id} is the highest-quality format that fits in VRAM: ~${bestTotal.toFixed(1)}GB total, ~${estimateQualityLoss(best.id).perplexityDeltaPct}% higher perplexity than FP16.`,
+                impact: 'high',
+            });
+        }
+    }
+
+    const currentKV = calcKVCache(model, contextLength, kvCache);
+    const quantizedKV = getQuantizedKVCache(runtime);
+    const isUnquantizedKV = KV_CACHE_BITS[kvCache.typeK] >= 16 && KV_CACHE_BITS[kvCache.typeV] >= 16;
+    if (quantizedKV && isUnquantizedKV && (verdict !== 'full_gpu' || currentKV >= 1)) {
+        const savings = currentKV - calcKVCache(model, contextLength, quantizedKV);
+        if (savings > 0.1) {
+            recs.push({
+                type: 'quantization',
+                title: `Quantize your KV cache to ${quantizedKV.typeK}`,
+                description: `Setting ${formatKVCacheFlags(runtime, quantizedKV)} saves ~${savings.toFixed(1)}GB of KV cache (${currentKV.toFixed(1)}GB → ${(currentKV - savings).toFixed(1)}GB) with negligible quality loss.${runtime.id === 'llama.cpp' ? ' Quantized V cache requires flash attention (-fa).' : ''}`,
+                impact: verdict === 'full_gpu' ? 'low' : 'high',
+            });
+        }
+    }
+
+    if (attentionScoresGB > 0 && KV_CACHE_BITS[kvCache.typeV] < 16) {
         recs.push({
-            type: 'quantization',
-            title: 'Use Q4_K_M quantization',
-            description: `Switching to Q4_K_M would reduce memory to ~${q4Memory.toFixed(1)}GB with minimal quality loss.`,
+            type: 'tip',
+            title: 'Quantized V cache needs flash attention',
+            description: `${runtime.name} refuses a ${kvCache.typeV} V cache without flash attention. Turn it on (-fa on) or keep V at f16.`,
             impact: 'high',
         });
+    } else if (attentionScoresGB >= 0.25) {
+        recs.push({
+            type: 'tip',
+            title: 'Turn on flash attention',
+            description: `Without flash attention the compute buffer holds ${attentionScoresGB.toFixed(2)}GB of attention scores that grow with context and batch size. Run with -fa on (OLLAMA_FLASH_ATTENTION=1 for Ollama) to drop them.`,
+            impact: verdict === 'full_gpu' ? 'low' : 'high',
+        });
     }
 
     if (contextLength > 4096 && verdict !== 'full_gpu') {
-        const reducedKV = calcKVCache(model, 4096);
-        const currentKV = calcKVCache(model, contextLength);
+        const reducedKV = calcKVCache(model, 4096, kvCache);
         const savings = currentKV - reducedKV;
         if (savings > 0.5) {
             recs.push({
@@ -170,7 +805,29 @@ function generateRecommendations(
         }
     }
 
-    if (verdict === 'partial_offload') {
+    if (mediaTokens > 0 && contextLength + mediaTokens > model.maxContextLength) {
+        const modalities = getMediaModalities(model, media);
+        const hasImages = modalities.includes('vision');
+        const hasAudio = modalities.includes('audio');
+        const subject = hasImages && hasAudio ? 'Images and audio' : hasAudio ? 'Audio clips' : 'Images';
+        const tokenKind = hasImages && hasAudio ? 'image and audio' : hasAudio ? 'audio' : 'image';
+        const items = hasImages && hasAudio ? 'images or audio clips' : hasAudio ? 'audio clips' : 'images';
+        recs.push({
+            type: 'context',
+            title: `${subject} exceed the context window`,
+            description: `${contextLength.toLocaleString()} tokens of text plus ~${mediaTokens.toLocaleString()} ${tokenKind} tokens is more than ${model.name}'s ${model.maxContextLength.toLocaleString()}-token limit. Send fewer ${items} or shorten the text.`,
+            impact: 'high',
+        });
+    }
+
+    if (expertOffload && expertOffload.expertLayersOnCPU > 0) {
+        recs.push({
+            type: 'tip',
+            title: 'Routed experts in system RAM',
+            description: `Experts of ${expertOffload.expertLayersOnCPU} of ${expertOffload.moeLayers} MoE layers (${expertOffload.routedOnCPUGB.toFixed(1)}GB) stay in RAM. Run llama.cpp with -ngl 99 --n-cpu-moe ${expertOffload.expertLayersOnCPU}.`,
+            impact: 'medium',
+        });
+    } else if (verdict === 'partial_offload') {
         recs.push({
             type: 'tip',
             title: 'CPU offloading active',
@@ -179,15 +836,36 @@ function generateRecommendations(
         });
     }
 
-    if (hardware.isAppleSilicon) {
+    if (verdict !== 'full_gpu' && reservedVRAMCostGB > 0 && totalRequired <= availableVRAM + reservedVRAMCostGB) {
         recs.push({
             type: 'tip',
-            title: 'Apple Silicon unified memory',
-            description: `Your ${hardware.gpu?.name || 'Mac'} uses unified memory. ~${(APPLE_SILICON_USABLE_RATIO * 100).toFixed(0)}% of total RAM is usable for ML inference.`,
-            impact: 'low',
+            title: 'Free the VRAM your desktop holds',
+            description: `The model would fit fully on GPU with the ${reservedVRAMCostGB.toFixed(1)} GB reserved for displays and apps. Plug monitors into the integrated GPU or close GPU-accelerated apps, then lower the reserve.`,
+            impact: 'medium',
         });
     }
 
+    if (hardware.isAppleSilicon) {
+        const totalGB = hardware.gpus[0]?.gpu.memorySize ?? 0;
+        const limitGB = getGPULimitGB(totalGB, hardware.appleGPULimitGB);
+        const maxLimitGB = getMaxGPULimitGB(totalGB);
+        if (verdict !== 'full_gpu' && !hardware.customVRAM && totalRequired > limitGB && totalRequired + 1 <= maxLimitGB) {
+            recs.push({
+                type: 'hardware',
+                title: 'Raise the GPU memory limit',
+                description: `macOS lets the GPU use ${limitGB.toFixed(0)} of ${totalGB} GB. Run \`${formatWiredLimitCommand(Math.ceil(totalRequired + 1))}\` to fit this model fully on GPU (resets on reboot).`,
+                impact: 'high',
+            });
+        } else {
+            recs.push({
+                type: 'tip',
+                title: 'Apple Silicon unified memory',
+                description: `Your ${hardware.gpus[0]?.gpu.name || 'Mac'} uses unified memory. macOS lets the GPU use ${limitGB.toFixed(0)} of ${totalGB} GB${hardware.appleGPULimitGB ? ' (your limit)' : ''}.`,
+                impact: 'low',
+            });
+        }
+    }
+
     return recs;
 }
 
@@ -200,48 +878,182 @@ export function calculateCompatibility(
     hardware: HardwareConfig,
     quantization: QuantizationType,
     contextLength: number,
+    options: CalculationOptions = {},
 ): CalculationResult {
-    // Calculate memory requirements
-    const modelMemoryGB = calcModelMemory(model, quantization);
-    const kvCacheMemoryGB = calcKVCache(model, contextLength);
-    const systemOverheadGB = GPU_FRAMEWORK_OVERHEAD_GB;
-    const totalRequiredGB = modelMemoryGB + kvCacheMemoryGB + systemOverheadGB;
+    const runtime = getRuntimeProfile(options.runtime ?? DEFAULT_RUNTIME);
+    const kvCache = options.kvCache ?? DEFAULT_KV_CACHE;
 
     // Available resources
-    const availableVRAM = getAvailableVRAM(hardware);
-    const availableRAM = hardware.systemRAM;
+    const gpuCapacities = getGPUCapacities(hardware, runtime);
+    const availableVRAM = gpuCapacities.reduce((sum, c) => sum + c.memoryGB, 0);
+    const availableRAM = getAvailableRAM(hardware);
     const totalAvailable = availableVRAM + availableRAM;
 
-    // Layer offloading calculation
-    const totalLayers = model.layers;
-    let layersOnGPU: number;
-    let layersOnCPU: number;
+    // Calculate memory requirements. Serving holds one KV cache per active sequence,
+    // and image/audio tokens of every request sit in the KV cache next to the text.
+    const mediaTokens = countMediaTokens(model, options.media);
+    const kvTokens = contextLength + mediaTokens;
+    const serving = options.serving;
+    const servingTokens = serving
+        ? Math.min(serving.avgPromptTokens + serving.avgOutputTokens, contextLength) + mediaTokens
+        : 0;
+    const servingSlots = serving ? Math.max(1, Math.min(serving.concurrentSequences, serving.maxBatchSize)) : 0;
+    const kvPerSequenceGB = calcKVCache(model, getAllocatedContext(servingTokens, runtime), kvCache);
+    const quantParams = options.quantParams ?? {};
+    const weights = calcWeightLayout(model, quantization, quantParams, runtime);
+    const modelMemoryGB = weights.totalGB;
+    const kvCacheMemoryGB = serving
+        ? kvPerSequenceGB * servingSlots
+        : calcKVCache(model, getAllocatedContext(kvTokens, runtime), kvCache);
+    const encoderMemoryGB = calcEncoderMemory(model);
+    // Scores span one sequence's context, however many are batched
+    const computeBuffer = options.computeBuffer ?? DEFAULT_COMPUTE_BUFFER;
+    const attentionContext = getAllocatedContext(serving ? servingTokens : kvTokens, runtime);
+    const computeBufferGB = calcComputeBuffer(model, runtime, attentionContext, computeBuffer);
+    const attentionScoresGB = calcAttentionScores(model, runtime, attentionContext, computeBuffer);
+    const systemOverheadGB = calcSystemOverhead(runtime, gpuCapacities.length);
 
-    if (availableVRAM <= systemOverheadGB) {
-        // No GPU memory available
-        layersOnGPU = 0;
-        layersOnCPU = totalLayers;
-    } else {
-        const vramForModel = availableVRAM - systemOverheadGB;
-        const memoryPerLayer = modelMemoryGB / totalLayers;
-        const kvPerLayer = kvCacheMemoryGB / totalLayers;
-        const totalPerLayer = memoryPerLayer + kvPerLayer;
+    // A draft model runs fully on the main GPU, with its own KV cache for the same tokens
+    const speculative = options.speculative;
+    const draftModel = speculative?.draftModel;
+    const draftMemoryGB = draftModel
+        ? calcModelMemory(draftModel, quantization, quantParams) + (serving
+            ? calcKVCache(draftModel, getAllocatedContext(servingTokens, runtime), kvCache) * servingSlots
+            : calcKVCache(draftModel, getAllocatedContext(kvTokens, runtime), kvCache))
+        : 0;
+    const totalRequiredGB = modelMemoryGB + kvCacheMemoryGB + systemOverheadGB + computeBufferGB + draftMemoryGB + encoderMemoryGB;
 
-        layersOnGPU = Math.min(totalLayers, Math.floor(vramForModel / totalPerLayer));
-        layersOnCPU = totalLayers - layersOnGPU;
+    // Layer offloading calculation — every GPU pays the framework overhead,
+    // the main GPU also holds the compute buffer, encoders, any draft model
+    // and the token embedding unless the runtime keeps that in RAM
+    const totalLayers = model.layers;
+    const mainGPUReservedGB = computeBufferGB + draftMemoryGB + encoderMemoryGB + weights.embeddingGB - weights.ramResidentGB;
+    // TensorRT-LLM runs 8-bit weights on INT8 tensor cores
+    const useInt8Compute = runtime.id === 'tensorrt-llm' && quantization === 'Q8_0';
+    // Every device reads the quantized weights; each GPU reaches its fitted share
+    // of bandwidth where measured, the default share otherwise
+    const calibrations = gpuCapacities.map((c) => resolveCalibration(options.calibrations, c.gpu));
+    // A known CPU sets RAM bandwidth and matmul speed, unless a measured slowdown
+    // exists; a Mac's CPU shares the GPU's unified memory
+    const cpuSpec = hardware.isAppleSilicon ? undefined : hardware.cpu;
+    const cpuBandwidth = cpuSpec && !calibrations[0]?.cpuSlowdown ? getCPUDecodeBandwidth(cpuSpec) : undefined;
+    const cpuTFLOPs = cpuSpec ? getCPUMatmulTFLOPs(cpuSpec) : CPU_PREFILL_TFLOPS;
+    const decode: DecodeModel = {
+        bytesPerParam: calcModelMemory(model, quantization, quantParams) / model.params,
+        cpuSlowdown: calibrations[0]?.cpuSlowdown ?? CPU_SPEED_PENALTY,
+        cpuBandwidth,
+    };
+    const splitTargets: SplitTarget[] = gpuCapacities.map((c, i) => ({
+        freeGB: c.memoryGB - runtime.frameworkOverheadGB - (i === 0 ? mainGPUReservedGB : 0),
+        ratio: c.ratio,
+        bandwidth: c.gpu.memoryBandwidth * (calibrations[i]?.decodeEfficiency ?? DEFAULT_DECODE_EFFICIENCY),
+        tflops: (getComputeTFLOPs(c.gpu, useInt8Compute) * (calibrations[i]?.prefillMFU ?? PREFILL_MFU)) / PREFILL_MFU,
+    }));
+    // The output head follows the last layer (last GPU for layer split, main
+    // GPU otherwise) but, as with llama.cpp's -ngl, only once every block is
+    // on GPU; until then the VRAM goes to blocks and the head runs on CPU
+    const outputDevice = hardware.splitMode === 'layer' ? splitTargets.length - 1 : 0;
+    const headTargets = splitTargets.map((t, i) => (i === outputDevice ? { ...t, freeGB: t.freeGB - weights.outputHeadGB } : t));
+    const withHead = (p: LayerPlacement): LayerPlacement => ({
+        ...p,
+        memoryPerDevice: p.memoryPerDevice.map((m, i) => (i === outputDevice ? m + weights.outputHeadGB : m)),
+    });
+    const blockPerLayerGB = weights.blockGB / totalLayers;
+    const kvPerLayerGB = kvCacheMemoryGB / totalLayers;
+    let placement = distributeLayers(hardware.splitMode, totalLayers, blockPerLayerGB, kvPerLayerGB, headTargets);
+    let outputOnGPU = placement.layersOnGPU === totalLayers;
+    placement = outputOnGPU
+        ? withHead(placement)
+        : distributeLayers(hardware.splitMode, totalLayers, blockPerLayerGB, kvPerLayerGB, splitTargets);
+    let layersOnGPU = placement.layersOnGPU;
+
+    // MoE expert offload: attention and shared experts of every layer stay on
+    // GPU, routed experts fill the VRAM left and the rest go to RAM. A layer
+    // counts as on GPU when its experts are.
+    const moeOffload = options.moeOffload ?? 'layers';
+    const moeGroups = model.isMoE ? splitMoEParams(model) : null;
+    let expertOffload: ExpertOffloadResult | undefined;
+    if (moeOffload === 'experts' && runtime.supportsExpertOffload && moeGroups && moeGroups.moeLayers > 0) {
+        const gbPerParam = calcModelMemory(model, quantization, quantParams) / model.params;
+        const routedGB = moeGroups.routedExperts * gbPerParam;
+        const densePlacement = distributeLayers(
+            hardware.splitMode, totalLayers, (weights.blockGB - routedGB) / totalLayers, kvPerLayerGB, headTargets
+        );
+        if (densePlacement.layersOnGPU === totalLayers) {
+            const expertLayerGB = routedGB / moeGroups.moeLayers;
+            const expertLayers = placeRoutedExperts(
+                moeGroups.moeLayers, expertLayerGB, headTargets.map((t, i) => t.freeGB - densePlacement.memoryPerDevice[i])
+            );
+            const expertLayersOnCPU = moeGroups.moeLayers - expertLayers.reduce((a, b) => a + b, 0);
+            placement = withHead({
+                ...densePlacement,
+                memoryPerDevice: densePlacement.memoryPerDevice.map((m, i) => m + expertLayers[i] * expertLayerGB),
+            });
+            outputOnGPU = true;
+            layersOnGPU = totalLayers - expertLayersOnCPU;
+            expertOffload = {
+                attentionGB: round2(moeGroups.attention * gbPerParam),
+                sharedExpertsGB: round2(moeGroups.sharedExperts * gbPerParam),
+                routedExpertsGB: round2(routedGB),
+                routedOnCPUGB: round2(expertLayersOnCPU * expertLayerGB),
+                moeLayers: moeGroups.moeLayers,
+                expertLayersOnCPU,
+            };
+        }
     }
+    const layersOnCPU = totalLayers - layersOnGPU;
 
     const offloadPercentage = (layersOnCPU / totalLayers) * 100;
 
+    // Copies over PCIe/NVLink: activations at every device boundary and, for
+    // runtimes that stream them, the offloaded weights once per prompt batch.
+    // A Mac's unified memory has no link to cross.
+    const splitTimes = estimateSplitTimes(hardware.splitMode, placement, splitTargets);
+    const promptTokens = Math.min(options.promptTokens ?? DEFAULT_PROMPT_TOKENS, contextLength) + mediaTokens;
+    const streamedWeightsGB = runtime.streamsOffloadedWeights
+        ? expertOffload?.routedOnCPUGB ?? layersOnCPU * blockPerLayerGB
+        : 0;
+    const traffic = estimateLinkTraffic({
+        devices: hardware.isAppleSilicon ? [] : gpuCapacities.map((c) => c.device),
+        splitMode: hardware.splitMode,
+        nvlink: (hardware.nvlink ?? false) && gpuCapacities.every((c) => c.gpu.vendor === 'nvidia'),
+        layersPerDevice: placement.layersPerDevice,
+        layersOnGPU,
+        outputOnGPU,
+        hostRoundTrips: expertOffload?.expertLayersOnCPU ?? 0,
+        hiddenSize: model.hiddenSize,
+        vocabSize: model.vocabSize ?? 0,
+        streamedWeightsGB,
+        ubatchSize: computeBuffer.ubatchSize ?? runtime.batchSize,
+        promptTokens,
+    });
+    const gpuBandwidth = splitTimes.totalTime > 0 ? 1 / splitTimes.totalTime : gpuCapacities[0]?.gpu.memoryBandwidth ?? 0;
+    const computeTimes = estimateSplitTimes(hardware.splitMode, placement, splitTargets, (t) => t.tflops);
+    const gpuTFLOPs = computeTimes.totalTime > 0 ? 1 / computeTimes.totalTime : splitTargets[0]?.tflops ?? 0;
+
     // Determine verdict
     let verdict: CompatibilityVerdict;
     let verdictLabel: string;
     let verdictEmoji: string;
 
-    if (totalRequiredGB <= availableVRAM) {
+    // Weights the runtime keeps in RAM don't need VRAM, but must fit in RAM
+    const vramRequiredGB = totalRequiredGB - weights.ramResidentGB;
+    if (weights.ramResidentGB > availableRAM) {
+        verdict = 'cannot_run';
+        verdictLabel = 'Cannot Run';
+        verdictEmoji = '❌';
+    } else if (vramRequiredGB <= availableVRAM && layersOnGPU === totalLayers && outputOnGPU) {
         verdict = 'full_gpu';
         verdictLabel = 'Full GPU';
         verdictEmoji = '✅';
+    } else if (expertOffload && expertOffload.routedOnCPUGB + weights.ramResidentGB <= availableRAM) {
+        verdict = 'partial_offload';
+        verdictLabel = 'Expert Offload';
+        verdictEmoji = '⚡';
+    } else if (!runtime.supportsCPUOffload) {
+        verdict = 'cannot_run';
+        verdictLabel = 'Cannot Run';
+        verdictEmoji = '❌';
     } else if (totalRequiredGB <= totalAvailable && layersOnGPU > 0) {
         verdict = 'partial_offload';
         verdictLabel = 'Partial Offload';
@@ -256,31 +1068,167 @@ export function calculateCompatibility(
         verdictEmoji = '❌';
     }
 
+    // Uncertainty: real file sizes spread around the nominal bpw and runtime
+    // overhead varies, so the memory total is a range; when the high or low
+    // end changes whether every GPU can hold its share, the verdict is softened
+    const bpwSpread = BPW_SPREAD[getQuantizationFormat(quantization).family];
+    const fitsOnGPUs = (weightScale: number, overheadScale: number): boolean => {
+        const targets = splitTargets.map((t, i) => ({
+            ...t,
+            freeGB: gpuCapacities[i].memoryGB - runtime.frameworkOverheadGB * overheadScale
+                - (i === 0 ? computeBufferGB * overheadScale + draftMemoryGB + encoderMemoryGB + (weights.embeddingGB - weights.ramResidentGB) * weightScale : 0)
+                - (i === outputDevice ? weights.outputHeadGB * weightScale : 0),
+        }));
+        return distributeLayers(hardware.splitMode, totalLayers, blockPerLayerGB * weightScale, kvPerLayerGB, targets).layersOnGPU === totalLayers;
+    };
+    const runtimeMemoryGB = systemOverheadGB + computeBufferGB;
+    const totalRequiredRange: EstimateRange = {
+        low: round2(totalRequiredGB - modelMemoryGB * bpwSpread - runtimeMemoryGB * (1 - OVERHEAD_RANGE[0])),
+        expected: round2(totalRequiredGB),
+        high: round2(totalRequiredGB + modelMemoryGB * bpwSpread + runtimeMemoryGB * (OVERHEAD_RANGE[1] - 1)),
+    };
+    let fitConfidence: FitConfidence = 'confident';
+    if (verdict === 'full_gpu' && !fitsOnGPUs(1 + bpwSpread, OVERHEAD_RANGE[1])) {
+        fitConfidence = 'likely_fits';
+        verdictLabel = 'Likely Fits';
+    } else if (verdict !== 'full_gpu' && availableVRAM > 0 && weights.ramResidentGB <= availableRAM && fitsOnGPUs(1 - bpwSpread, OVERHEAD_RANGE[0])) {
+        fitConfidence = 'borderline';
+        verdictLabel = 'Borderline';
+        verdictEmoji = '⚖️';
+    }
+
     // Performance estimate
-    const estimatedTokensPerSec = estimateTokensPerSec(hardware, model, layersOnGPU, totalLayers);
+    const readParams = expertOffload && moeGroups
+        ? expertOffloadReadParams(model, moeGroups, expertOffload.expertLayersOnCPU)
+        : splitReadParams(model, layersOnGPU / totalLayers, outputOnGPU);
+    const decodeTime = estimateDecodeTime(hardware, runtime, gpuBandwidth, readParams, decode, traffic.decodeSec);
+    const rawTokensPerSec = decodeTokensPerSec(decodeTime);
+    const estimatedTokensPerSec = clampTokensPerSec(rawTokensPerSec);
+    // Heavier files are slower to read, on top of the bandwidth efficiency spread
+    const tokensPerSecRange: EstimateRange = {
+        low: clampTokensPerSec((rawTokensPerSec * SPEED_EFFICIENCY_RANGE[0]) / (1 + bpwSpread)),
+        expected: estimatedTokensPerSec,
+        high: clampTokensPerSec((rawTokensPerSec * SPEED_EFFICIENCY_RANGE[1]) / (1 - bpwSpread)),
+    };
     const speedCategory = getSpeedCategory(estimatedTokensPerSec);
 
+    // Prompt processing and time to first token
+    const promptTokensPerSec = estimatePrefillTokensPerSec(model, promptTokens, gpuTFLOPs, cpuTFLOPs, layersOnGPU, totalLayers, {
+        transferSec: traffic.prefillSecPerToken,
+        streamSec: traffic.streamSecPerToken,
+    });
+    const timeToFirstTokenSec = promptTokens / promptTokensPerSec + 1 / rawTokensPerSec;
+
+    // Per-GPU allocation, with the GPU that spends longest per token flagged
+    // and any GPU whose narrow link slows tokens or prompts noticeably
+    const slowestTime = Math.max(0, ...splitTimes.deviceTimes);
+    const linkBound = hardware.isAppleSilicon
+        ? []
+        : findLinkBound(gpuCapacities.map((c) => c.device), traffic, 1 / rawTokensPerSec, 1 / promptTokensPerSec);
+    const devices: DeviceAllocation[] = gpuCapacities.map((c, i) => ({
+        name: c.gpu.name,
+        vendor: c.gpu.vendor,
+        layers: placement.layersPerDevice[i],
+        memoryGB: round2(placement.memoryPerDevice[i] + c.memoryGB - splitTargets[i].freeGB),
+        capacityGB: round2(c.memoryGB),
+        isBottleneck: gpuCapacities.length > 1 && slowestTime > 0 && splitTimes.deviceTimes[i] === slowestTime,
+        link: hardware.isAppleSilicon ? 'Unified memory' : describeLink(c.device),
+        linkBound: linkBound[i] ?? false,
+    }));
+
+    const servingResult = serving
+        ? estimateServing({
+            config: serving,
+            tokensPerSequence: servingTokens,
+            kvPerSequenceGB,
+            singleStreamTokensPerSec: rawTokensPerSec,
+            activeParams: model.isMoE && model.activeParams ? model.activeParams : model.params,
+            bandwidth: gpuBandwidth || cpuBandwidth || 50,
+            computeTFLOPs: gpuTFLOPs || (cpuSpec ? cpuTFLOPs : (50 * FLOPS_PER_BYTE) / 1000),
+            freeVRAMForKV: availableVRAM - runtimeMemoryGB - (modelMemoryGB - weights.ramResidentGB) - draftMemoryGB - encoderMemoryGB,
+        })
+        : undefined;
+
+    const trainingResult = options.training
+        ? estimateTraining(model, options.training, getTrainingVRAM(hardware))
+        : undefined;
+
+    let speculativeResult: SpeculativeResult | undefined;
+    if (speculative && draftModel) {
+        const draftDecode: DecodeModel = {
+            ...decode,
+            bytesPerParam: calcModelMemory(draftModel, quantization, quantParams) / draftModel.params,
+        };
+        const draftBandwidthTokensPerSec = decodeTokensPerSec(estimateDecodeTime(
+            hardware, runtime, splitTargets[0]?.bandwidth ?? 0, splitReadParams(draftModel, 1, true), draftDecode
+        ));
+        const draftTokensPerSec = 1 / (1 / draftBandwidthTokensPerSec + MIN_DECODE_STEP_SEC);
+        const { tokensPerStep, speedup: draftSpeedup } = estimateSpeculativeSpeedup(speculative, draftTokensPerSec, rawTokensPerSec);
+        const vocabMismatch = checkDraftVocab(model, draftModel);
+        // A draft the target can't verify, or a runtime that ignores it, leaves decoding as is
+        const speedup = vocabMismatch || !runtime.supportsSpeculative ? 1 : draftSpeedup;
+        speculativeResult = {
+            draftModelName: draftModel.name,
+            draftMemoryGB: round2(draftMemoryGB),
+            draftTokensPerSec: Math.round(draftTokensPerSec * 10) / 10,
+            tokensPerStep: round2(tokensPerStep),
+            speedup: round2(speedup),
+            effectiveTokensPerSec: Math.round(rawTokensPerSec * speedup * 10) / 10,
+            vocabMismatch,
+        };
+    }
+
     // Recommendations
     const recommendations = generateRecommendations(
-        model, hardware, quantization, verdict, contextLength, totalRequiredGB, availableVRAM
+        model, hardware, runtime, quantization, quantParams, kvCache, verdict, contextLength, totalRequiredGB, availableVRAM, devices,
+        speculativeResult, moeOffload, expertOffload, options.media, mediaTokens, attentionScoresGB,
+        getAvailableVRAM({ ...hardware, gpus: hardware.gpus.map((d) => ({ ...d, reservedVRAMGB: undefined })) }, runtime) - availableVRAM,
+        weights.ramResidentGB
     );
 
     return {
         verdict,
         verdictLabel,
         verdictEmoji,
-        modelMemoryGB: Math.round(modelMemoryGB * 100) / 100,
-        kvCacheMemoryGB: Math.round(kvCacheMemoryGB * 100) / 100,
-        systemOverheadGB,
-        totalRequiredGB: Math.round(totalRequiredGB * 100) / 100,
-        availableVRAM: Math.round(availableVRAM * 100) / 100,
-        availableRAM,
+        fitConfidence,
+        runtime,
+        kvCache,
+        modelMemoryGB: round2(modelMemoryGB),
+        kvCacheMemoryGB: round2(kvCacheMemoryGB),
+        systemOverheadGB: round2(systemOverheadGB),
+        computeBufferGB: round2(computeBufferGB),
+        attentionScoresGB: round2(attentionScoresGB),
+        encoderMemoryGB: round2(encoderMemoryGB),
+        totalRequiredGB: round2(totalRequiredGB),
+        totalRequiredRange,
+        availableVRAM: round2(availableVRAM),
+        availableRAM: round2(availableRAM),
+        reservedVRAMGB: round2(gpuCapacities.reduce((sum, c) => sum + c.reservedGB, 0)),
+        reservedRAMGB: round2(getReservedRAM(hardware)),
         totalLayers,
         layersOnGPU,
         layersOnCPU,
+        outputOnGPU,
+        embeddingGB: round2(weights.embeddingGB),
+        outputHeadGB: round2(weights.outputHeadGB),
         offloadPercentage: Math.round(offloadPercentage),
+        splitMode: hardware.splitMode,
+        devices,
+        mediaTokens,
         estimatedTokensPerSec,
+        tokensPerSecRange,
         speedCategory,
+        promptTokens,
+        promptTokensPerSec: Math.round(promptTokensPerSec),
+        gpuMsPerToken: round2(decodeTime.gpuSec * 1000),
+        cpuMsPerToken: round2(decodeTime.cpuSec * 1000),
+        linkMsPerToken: round2(traffic.decodeSec * 1000),
+        weightStreaming: traffic.streamSecPerToken !== null,
+        timeToFirstTokenSec: round2(timeToFirstTokenSec),
+        serving: servingResult,
+        training: trainingResult,
+        speculative: speculativeResult,
+        expertOffload,
         recommendations,
     };
 }
@@ -292,18 +1240,28 @@ export function quickCheck(
     model: ModelConfig,
     hardware: HardwareConfig,
     quantization: QuantizationType,
+    options: CalculationOptions = {},
 ): { verdict: CompatibilityVerdict; vramNeeded: number } {
-    const modelMem = calcModelMemory(model, quantization);
-    const kvMem = calcKVCache(model, Math.min(model.maxContextLength, 4096));
-    const total = modelMem + kvMem + GPU_FRAMEWORK_OVERHEAD_GB;
-    const vram = getAvailableVRAM(hardware);
-    const ram = hardware.systemRAM;
+    const runtime = getRuntimeProfile(options.runtime ?? DEFAULT_RUNTIME);
+    // Image/audio tokens sit in the KV cache next to the text, as in the full calculation
+    const mediaTokens = countMediaTokens(model, options.media);
+    const contextLength = getAllocatedContext(Math.min(model.maxContextLength, 4096) + mediaTokens, runtime);
+    const weights = calcWeightLayout(model, quantization, options.quantParams ?? {}, runtime);
+    const kvMem = calcKVCache(model, contextLength, options.kvCache);
+    const gpuCount = getGPUCapacities(hardware, runtime).length;
+    const computeBufferGB = calcComputeBuffer(model, runtime, contextLength, options.computeBuffer ?? DEFAULT_COMPUTE_BUFFER);
+    const total = weights.totalGB + kvMem + calcEncoderMemory(model) + calcSystemOverhead(runtime, gpuCount) + computeBufferGB;
+    const vramNeeded = total - weights.ramResidentGB;
+    const vram = getAvailableVRAM(hardware, runtime);
+    const ram = getAvailableRAM(hardware);
 
     let verdict: CompatibilityVerdict;
-    if (total <= vram) verdict = 'full_gpu';
+    if (weights.ramResidentGB > ram) verdict = 'cannot_run';
+    else if (vramNeeded <= vram) verdict = 'full_gpu';
+    else if (!runtime.supportsCPUOffload) verdict = 'cannot_run';
     else if (total <= vram + ram) verdict = 'partial_offload';
     else if (total <= ram) verdict = 'cpu_only';
     else verdict = 'cannot_run';
 
-    return { verdict, vramNeeded: Math.round(total * 100) / 100 };
+    return { verdict, vramNeeded: round2(vramNeeded) };
 }
@@ -0,0 +1,135 @@
+import type { BenchmarkMeasurement, BenchmarkSource, GPUInfo, InferenceRuntime, SpeedCalibration } from '../types';
+import { getRuntimeProfile } from '../data/runtimeProfiles';
+
+// ============================================================================
+// Speed model coefficients, default or fitted from measured benchmarks
+// ============================================================================
+
+export const DEFAULT_DECODE_EFFICIENCY = 0.6; // share of bandwidth uncalibrated decode reaches over the quantized weights
+export const CPU_SPEED_PENALTY = 4; // CPU inference is ~4x slower than GPU
+export const PREFILL_MFU = 0.45; // share of peak FLOPs reached by batched prompt processing
+export const CPU_PREFILL_TFLOPS = 1; // effective matmul throughput of a desktop CPU
+export const FLOPS_PER_BYTE = 100; // typical peak FP16 FLOPs per byte of bandwidth, when TFLOPs are unknown
+
+const SOURCE_RUNTIME: Record<BenchmarkSource, InferenceRuntime> = {
+    'llama-bench': 'llama.cpp',
+    ollama: 'ollama',
+};
+
+export type SpeedCoefficients = Pick<SpeedCalibration, 'decodeEfficiency' | 'prefillMFU' | 'cpuSlowdown'>;
+
+/**
+ * Peak tensor throughput of a GPU; INT8 where the runtime runs 8-bit matmuls,
+ * otherwise FP16, estimated from bandwidth when the spec is unknown
+ */
+export function getComputeTFLOPs(gpu: GPUInfo, useInt8: boolean): number {
+    if (useInt8 && gpu.int8Tops) return gpu.int8Tops;
+    return gpu.fp16Tflops || (gpu.memoryBandwidth * FLOPS_PER_BYTE) / 1000;
+}
+
+/**
+ * Apple chips of one tier share bandwidth and GPU cores whatever their memory
+ * size, so they are calibrated together
+ */
+export function calibrationKey(gpu: GPUInfo): string {
+    return gpu.vendor === 'apple' ? gpu.architecture ?? gpu.name : gpu.name;
+}
+
+/**
+ * Coefficients for a GPU: its own where measured, else its vendor's
+ */
+export function resolveCalibration(calibrations: SpeedCalibration[] | undefined, gpu: GPUInfo): SpeedCoefficients | null {
+    if (!calibrations || calibrations.length === 0) return null;
+    const own = calibrations.find((c) => c.scope === 'gpu' && c.key === calibrationKey(gpu));
+    const vendor = calibrations.find((c) => c.scope === 'vendor' && c.key === gpu.vendor);
+    if (!own && !vendor) return null;
+    return {
+        decodeEfficiency: own?.decodeEfficiency ?? vendor?.decodeEfficiency,
+        prefillMFU: own?.prefillMFU ?? vendor?.prefillMFU,
+        cpuSlowdown: own?.cpuSlowdown ?? vendor?.cpuSlowdown,
+    };
+}
+
+function mean(values: number[]): number | undefined {
+    return values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : undefined;
+}
+
+function measuredBandwidth(m: BenchmarkMeasurement): number {
+    return m.gpu.memoryBandwidth || (m.gpu.vendor === 'apple' ? 100 : 50);
+}
+
+/**
+ * Decode speed with every layer on GPU, in llama.cpp terms: the calibrated
+ * or default share of bandwidth over the active weights actually read
+ */
+function gpuDecodeRate(m: BenchmarkMeasurement, decodeEfficiency = DEFAULT_DECODE_EFFICIENCY): number {
+    return (decodeEfficiency * measuredBandwidth(m)) / (m.weightsGB * m.activeParams / m.params);
+}
+
+function runtimeEfficiency(m: BenchmarkMeasurement): number {
+    return getRuntimeProfile(SOURCE_RUNTIME[m.source]).speedEfficiency;
+}
+
+function fitGroup(scope: SpeedCalibration['scope'], key: string, items: BenchmarkMeasurement[]): SpeedCalibration {
+    const onGPU = items.filter((m) => m.gpuLayerShare === 1);
+    const decodeEfficiency = mean(onGPU
+        .filter((m) => m.genTokensPerSec)
+        .map((m) => ((m.genTokensPerSec ?? 0) / runtimeEfficiency(m)) * (m.weightsGB * m.activeParams / m.params) / measuredBandwidth(m)));
+    // Prompt attention FLOPs are left out; they are small next to the matmuls at llama-bench's pp512
+    const prefillMFU = mean(onGPU
+        .filter((m) => m.promptTokensPerSec)
+        .map((m) => ((m.promptTokensPerSec ?? 0) * 2 * m.activeParams * 1e9) / (getComputeTFLOPs(m.gpu, false) * 1e12)));
+    // Offloaded runs: tok/s = GPU rate / (share + (1 - share) × slowdown)
+    const cpuSlowdown = mean(items
+        .filter((m) => m.gpuLayerShare < 1 && m.genTokensPerSec)
+        .map((m) => {
+            const ratio = ((m.genTokensPerSec ?? 0) / runtimeEfficiency(m)) / gpuDecodeRate(m, decodeEfficiency);
+            return (1 / ratio - m.gpuLayerShare) / (1 - m.gpuLayerShare);
+        })
+        .filter((slowdown) => slowdown > 0 && Number.isFinite(slowdown)));
+
+    return { scope, key, decodeEfficiency, prefillMFU, cpuSlowdown, samples: items.length };
+}
+
+/**
+ * Fit coefficients for every measured GPU and every measured vendor
+ */
+export function fitCalibrations(measurements: BenchmarkMeasurement[]): SpeedCalibration[] {
+    const groups = new Map<string, { scope: SpeedCalibration['scope']; key: string; items: BenchmarkMeasurement[] }>();
+    const add = (scope: SpeedCalibration['scope'], key: string, m: BenchmarkMeasurement) => {
+        const id = `${scope}:${key}`;
+        if (!groups.has(id)) groups.set(id, { scope, key, items: [] });
+        groups.get(id)?.items.push(m);
+    };
+    for (const m of measurements) {
+        add('gpu', calibrationKey(m.gpu), m);
+        add('vendor', m.gpu.vendor, m);
+    }
+
+    return [...groups.values()]
+        .map((g) => fitGroup(g.scope, g.key, g.items))
+        .filter((c) => c.decodeEfficiency || c.prefillMFU || c.cpuSlowdown);
+}
+
+/**
+ * What the speed model predicts for a measured run — with the default rule
+ * when no calibrations are given
+ */
+export function estimateMeasurement(
+    m: BenchmarkMeasurement,
+    calibrations?: SpeedCalibration[],
+): { genTokensPerSec: number; promptTokensPerSec: number } {
+    const coefficients = resolveCalibration(calibrations, m.gpu);
+    const share = m.gpuLayerShare;
+
+    const gpuRate = gpuDecodeRate(m, coefficients?.decodeEfficiency);
+    const slowdown = coefficients?.cpuSlowdown ?? CPU_SPEED_PENALTY;
+    const genTokensPerSec = (runtimeEfficiency(m) * gpuRate) / (share + (1 - share) * slowdown);
+
+    const flopsPerToken = 2 * m.activeParams * 1e9;
+    const mfu = coefficients?.prefillMFU ?? PREFILL_MFU;
+    const gpuTime = share > 0 ? (share * flopsPerToken) / (getComputeTFLOPs(m.gpu, false) * 1e12 * mfu) : 0;
+    const cpuTime = ((1 - share) * flopsPerToken) / (CPU_PREFILL_TFLOPS * 1e12);
+
+    return { genTokensPerSec, promptTokensPerSec: 1 / (gpuTime + cpuTime) };
+}
@@ -0,0 +1,143 @@
+import type {
+    CalculationOptions,
+    CalculationResult,
+    CloudInstance,
+    CloudOption,
+    CostComparison,
+    EnergyResult,
+    GPUInfo,
+    HardwareConfig,
+    ModelConfig,
+    OwnershipConfig,
+    PriceOverrides,
+    QuantizationType,
+} from '../types';
+import { calculateCompatibility, DEFAULT_RUNTIME } from './calculationEngine';
+import { CLOUD_INSTANCES, GPU_PURCHASE_PRICES } from '../data/cloudPricing';
+import { getQuantizationFormat, isFormatSupportedOnGPU } from '../data/quantizations';
+import { getRuntimeProfile } from '../data/runtimeProfiles';
+
+// ============================================================================
+// Renting vs buying: cloud instances against the local rig
+// ============================================================================
+
+export const DEFAULT_OWNERSHIP: OwnershipConfig = { amortizationYears: 3, hoursPerDay: 8 };
+
+const CLOUD_SYSTEM_RAM = 256; // GB, more than any instance needs when it runs fully on GPU
+const DAYS_PER_MONTH = 365 / 12;
+
+/**
+ * Purchase price of a card: the user's price, else the longest bundled name
+ * the database name contains, else null (unknown, e.g. Macs)
+ */
+export function getPurchasePrice(gpu: GPUInfo, overrides: PriceOverrides): number | null {
+    if (overrides.purchase[gpu.name] !== undefined) return overrides.purchase[gpu.name];
+    const name = gpu.name.toLowerCase();
+    const key = Object.keys(GPU_PURCHASE_PRICES)
+        .filter((k) => name.includes(k.toLowerCase()))
+        .sort((a, b) => b.length - a.length)[0];
+    return key ? GPU_PURCHASE_PRICES[key] : null;
+}
+
+export function getHourlyPrice(instance: CloudInstance, overrides: PriceOverrides): number {
+    return overrides.cloudHourly[instance.id] ?? instance.hourlyPrice;
+}
+
+export function cloudInstanceName(instance: CloudInstance): string {
+    return instance.gpuCount > 1 ? `${instance.gpuCount}× ${instance.gpu.name}` : instance.gpu.name;
+}
+
+function costPerMillion(hourlyCost: number, tokensPerSec: number): number {
+    return (hourlyCost / (tokensPerSec * 3600)) * 1e6;
+}
+
+/**
+ * Every bundled instance that runs the model fully on GPU with the current
+ * runtime, quantization and context, cheapest per million output tokens first
+ */
+export function findCloudOptions(
+    model: ModelConfig,
+    quantization: QuantizationType,
+    contextLength: number,
+    splitMode: HardwareConfig['splitMode'],
+    options: CalculationOptions,
+    overrides: PriceOverrides,
+): CloudOption[] {
+    const runtime = getRuntimeProfile(options.runtime ?? DEFAULT_RUNTIME);
+    const format = getQuantizationFormat(quantization);
+
+    const fits: CloudOption[] = [];
+    for (const instance of CLOUD_INSTANCES) {
+        if (!runtime.vendors.includes(instance.gpu.vendor) || !isFormatSupportedOnGPU(format, instance.gpu)) continue;
+        const hardware: HardwareConfig = {
+            gpus: Array.from({ length: instance.gpuCount }, () => ({ gpu: instance.gpu })),
+            splitMode,
+            nvlink: instance.nvlink,
+            systemRAM: CLOUD_SYSTEM_RAM,
+            reservedRAMGB: 0, // a dedicated instance runs nothing else
+            isAppleSilicon: false,
+        };
+        const result = calculateCompatibility(model, hardware, quantization, contextLength, options);
+        if (result.verdict !== 'full_gpu') continue;
+
+        const tokensPerSec = result.serving?.aggregateTokensPerSec ?? result.estimatedTokensPerSec;
+        if (tokensPerSec <= 0) continue;
+        fits.push({
+            instance,
+            name: cloudInstanceName(instance),
+            tokensPerSec,
+            costPerMillionTokens: costPerMillion(getHourlyPrice(instance, overrides), tokensPerSec),
+        });
+    }
+    return fits.sort((a, b) => a.costPerMillionTokens - b.costPerMillionTokens);
+}
+
+/**
+ * Local cost per million tokens is the purchase price spread over the
+ * tokens generated in its amortization period, plus electricity. Owning
+ * pays off once the monthly amortization is saved by paying electricity
+ * instead of the cheapest cloud price per token. Without a price for every
+ * card only electricity is compared.
+ */
+export function compareCosts(
+    cloudOptions: CloudOption[],
+    hardware: HardwareConfig,
+    local: CalculationResult,
+    energy: EnergyResult,
+    ownership: OwnershipConfig,
+    overrides: PriceOverrides,
+): CostComparison {
+    const prices = hardware.gpus.map((d) => getPurchasePrice(d.gpu, overrides));
+    const unpricedGPUs = [...new Set(hardware.gpus.filter((_, i) => prices[i] === null).map((d) => d.gpu.name))];
+    const localPurchasePrice = unpricedGPUs.length === 0
+        ? prices.reduce<number>((sum, price) => sum + (price ?? 0), 0)
+        : null;
+
+    const electricityPerMillion = energy.costPerMillionTokens;
+    const canRun = local.verdict !== 'cannot_run' && energy.tokensPerSec > 0 && electricityPerMillion !== null;
+    const secondsOfUse = ownership.amortizationYears * 365 * ownership.hoursPerDay * 3600;
+    const localAmortizedPerMillion = canRun && localPurchasePrice !== null && secondsOfUse > 0
+        ? (localPurchasePrice / (secondsOfUse * energy.tokensPerSec)) * 1e6
+        : null;
+
+    const cheapest = cloudOptions[0];
+    const savedPerMillion = cheapest && electricityPerMillion !== null ? cheapest.costPerMillionTokens - electricityPerMillion : 0;
+    const breakEvenMillionTokensPerMonth = canRun && localPurchasePrice !== null && savedPerMillion > 0
+        ? localPurchasePrice / (ownership.amortizationYears * 12) / savedPerMillion
+        : null;
+
+    return {
+        cloudOptions,
+        localPurchasePrice,
+        unpricedGPUs,
+        localAmortizedPerMillion,
+        localElectricityPerMillion: canRun ? electricityPerMillion : null,
+        localTotalPerMillion: localAmortizedPerMillion === null || electricityPerMillion === null
+            ? null
+            : localAmortizedPerMillion + electricityPerMillion,
+        breakEvenMillionTokensPerMonth,
+        breakEvenHoursPerDay: breakEvenMillionTokensPerMonth === null
+            ? null
+            : (breakEvenMillionTokensPerMonth * 1e6) / (energy.tokensPerSec * 3600 * DAYS_PER_MONTH),
+    };
+}
@@ -0,0 +1,54 @@
+import type { ModelConfig, HardwareConfig, QuantizationType, CalculationOptions, CompatibilityVerdict, ContextLimits } from '../types';
+import { calculateCompatibility } from './calculationEngine';
+
+// ============================================================================
+// Reverse solver: largest context per verdict tier
+// ============================================================================
+
+const CONTEXT_STEP = 256; // llama.cpp pads the KV cache to 256 tokens
+
+/**
+ * Largest multiple of CONTEXT_STEP up to `max` for which `fits` holds, or
+ * null when not even one step fits. Memory only grows with context, so the
+ * answer is found by bisection.
+ */
+function largestFittingContext(max: number, fits: (contextLength: number) => boolean): number | null {
+    if (fits(max)) return max;
+
+    let lo = 0; // steps known to fit (0 = none)
+    let hi = Math.ceil(max / CONTEXT_STEP); // steps known not to fit
+    while (hi - lo > 1) {
+        const mid = Math.floor((lo + hi) / 2);
+        if (fits(mid * CONTEXT_STEP)) lo = mid;
+        else hi = mid;
+    }
+    return lo > 0 ? lo * CONTEXT_STEP : null;
+}
+
+/**
+ * Invert the memory equation of `calculateCompatibility`: the largest context
+ * that still runs fully on GPU, and the largest that runs with partial (layer
+ * or expert) offload, capped at the model's maxContextLength. KV cache
+ * precision, sliding windows, paging and serving slots all come from the same
+ * calculation, so the limits always agree with the verdict.
+ */
+export function findContextLimits(
+    model: ModelConfig,
+    hardware: HardwareConfig,
+    quantization: QuantizationType,
+    options: CalculationOptions = {},
+): ContextLimits {
+    const max = model.maxContextLength;
+    const verdictAt = (contextLength: number): CompatibilityVerdict =>
+        calculateCompatibility(model, hardware, quantization, contextLength, options).verdict;
+
+    const partialOffload = largestFittingContext(max, (c) => {
+        const verdict = verdictAt(c);
+        return verdict === 'full_gpu' || verdict === 'partial_offload';
+    });
+    const fullGPU = partialOffload === null
+        ? null
+        : largestFittingContext(partialOffload, (c) => verdictAt(c) === 'full_gpu');
+
+    return { fullGPU, partialOffload, maxContextLength: max };
+}
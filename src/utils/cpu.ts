@@ -0,0 +1,37 @@
+import type { CPUInfo } from '../types';
+
+// ============================================================================
+// CPU inference: memory bandwidth and matmul throughput from the CPU spec
+// ============================================================================
+
+const BYTES_PER_TRANSFER = 8; // one 64-bit channel
+const MEMORY_EFFICIENCY = 0.6; // share of theoretical bandwidth llama.cpp's CPU kernels stream
+// GB/s one core can dequantize and multiply; few cores can't saturate many channels
+const PER_CORE_BANDWIDTH = { avx2: 8, avx512: 12 };
+// FP32 FLOPs per core and cycle: two FMA units × vector width × 2, AMX tiles far more
+const FLOPS_PER_CYCLE = { avx2: 32, avx512: 64, amx: 256 };
+const CPU_MATMUL_EFFICIENCY = 0.3; // share of peak FLOPs prompt processing reaches on CPU
+
+/**
+ * Theoretical bandwidth of the populated channels, GB/s
+ */
+export function getCPUMemoryBandwidth(cpu: CPUInfo): number {
+    return (cpu.memoryChannels * cpu.memorySpeed * BYTES_PER_TRANSFER) / 1000;
+}
+
+/**
+ * Bandwidth decode actually reaches on the CPU: a share of the theoretical
+ * figure, capped by how much the cores can process
+ */
+export function getCPUDecodeBandwidth(cpu: CPUInfo): number {
+    const perCore = cpu.avx512 ? PER_CORE_BANDWIDTH.avx512 : PER_CORE_BANDWIDTH.avx2;
+    return Math.min(getCPUMemoryBandwidth(cpu) * MEMORY_EFFICIENCY, cpu.cores * perCore);
+}
+
+/**
+ * Effective matmul throughput for prompt processing, TFLOPs
+ */
+export function getCPUMatmulTFLOPs(cpu: CPUInfo): number {
+    const flopsPerCycle = cpu.amx ? FLOPS_PER_CYCLE.amx : cpu.avx512 ? FLOPS_PER_CYCLE.avx512 : FLOPS_PER_CYCLE.avx2;
+    return (cpu.cores * cpu.clockGHz * flopsPerCycle * CPU_MATMUL_EFFICIENCY) / 1000;
+}
@@ -0,0 +1,64 @@
+import type { CalculationResult, EnergyConfig, EnergyResult, HardwareConfig } from '../types';
+
+// ============================================================================
+// Power draw and electricity cost of generation
+// ============================================================================
+
+export const DEFAULT_ENERGY: EnergyConfig = {
+    electricityPrice: 0.3,
+    gpuUtilization: 0.7,
+    systemBaseWatts: 80,
+    cpuLoadWatts: 90,
+};
+
+const GPU_IDLE_SHARE = 0.1; // share of TDP a GPU draws while waiting on others
+// Watts per GB/s of bandwidth, for GPUs without a TDP in the database
+const WATTS_PER_BANDWIDTH = { apple: 0.15, discrete: 0.4 };
+const JOULES_PER_KWH = 3.6e6;
+
+/**
+ * Power draw during generation: each GPU at its utilized TDP while its
+ * layers run and near idle otherwise, plus the system base load and the CPU
+ * while it works through offloaded layers. Serving mode uses the aggregate
+ * throughput of the batch.
+ */
+export function estimateEnergy(result: CalculationResult, hardware: HardwareConfig, config: EnergyConfig): EnergyResult {
+    const gpus = hardware.gpus.filter((d) => result.runtime.vendors.includes(d.gpu.vendor)).map((d) => d.gpu);
+
+    // Share of each token's decode time spent in GPU layers and in CPU layers
+    const tokenMs = result.gpuMsPerToken + result.cpuMsPerToken + result.linkMsPerToken;
+    const gpuBusy = tokenMs > 0 ? result.gpuMsPerToken / tokenMs : 0;
+    const cpuBusy = tokenMs > 0 ? result.cpuMsPerToken / tokenMs : 0;
+    const tdpEstimated = gpus.some((gpu) => !gpu.tdp);
+
+    const gpuWatts = gpus.reduce((sum, gpu, i) => {
+        const tdp = gpu.tdp || gpu.memoryBandwidth * (gpu.vendor === 'apple' ? WATTS_PER_BANDWIDTH.apple : WATTS_PER_BANDWIDTH.discrete);
+        // Layer split runs one card at a time; tensor/row split runs them together
+        const layers = result.devices[i]?.layers ?? 0;
+        const busy = result.splitMode === 'layer' && result.layersOnGPU > 0
+            ? (gpuBusy * layers) / result.layersOnGPU
+            : gpuBusy;
+        return sum + tdp * (GPU_IDLE_SHARE + (config.gpuUtilization - GPU_IDLE_SHARE) * busy);
+    }, 0);
+    const cpuWatts = config.systemBaseWatts + config.cpuLoadWatts * cpuBusy;
+    const totalWatts = gpuWatts + cpuWatts;
+
+    const tokensPerSec = result.serving?.aggregateTokensPerSec ?? result.estimatedTokensPerSec;
+    // Nothing is generated, so there is no energy per token to report
+    const generates = result.verdict !== 'cannot_run' && tokensPerSec > 0;
+    const joulesPerToken = generates ? totalWatts / tokensPerSec : null;
+    const kWhPerMillionTokens = joulesPerToken === null ? null : (joulesPerToken * 1e6) / JOULES_PER_KWH;
+
+    return {
+        gpuWatts: Math.round(gpuWatts),
+        cpuWatts: Math.round(cpuWatts),
+        totalWatts: Math.round(totalWatts),
+        tokensPerSec,
+        joulesPerToken: joulesPerToken === null ? null : Math.round(joulesPerToken * 100) / 100,
+        kWhPerMillionTokens: kWhPerMillionTokens === null ? null : Math.round(kWhPerMillionTokens * 1000) / 1000,
+        costPerMillionTokens: kWhPerMillionTokens === null
+            ? null
+            : Math.round(kWhPerMillionTokens * config.electricityPrice * 1000) / 1000,
+        tdpEstimated,
+    };
+}
@@ -0,0 +1,108 @@
+import type { GPUSplitMode } from '../types';
+
+// ============================================================================
+// Multi-GPU layer placement and pipeline timing
+// ============================================================================
+
+export interface SplitTarget {
+    freeGB: number; // VRAM left for weights + KV after runtime overhead
+    ratio: number; // normalized share, sums to 1 across all targets
+    bandwidth: number; // GB/s
+    tflops: number; // peak compute used for prompt processing
+}
+
+export interface LayerPlacement {
+    layersOnGPU: number;
+    layersPerDevice: number[];
+    memoryPerDevice: number[]; // GB of weights + KV placed on each GPU
+}
+
+/**
+ * Place repeating layers on GPUs for the given split mode.
+ *   layer  — whole layers per GPU by ratio; layers a full GPU cannot take
+ *            spill into spare capacity on the others
+ *   tensor — every layer sliced across all GPUs by ratio (weights and KV)
+ *   row    — weights sliced by ratio, KV cache kept on the main GPU
+ * For tensor/row every GPU holds a slice of the same `layersOnGPU` layers.
+ */
+export function distributeLayers(
+    mode: GPUSplitMode,
+    totalLayers: number,
+    weightsPerLayer: number,
+    kvPerLayer: number,
+    targets: SplitTarget[],
+): LayerPlacement {
+    if (targets.length === 0) {
+        return { layersOnGPU: 0, layersPerDevice: [], memoryPerDevice: [] };
+    }
+
+    const perLayer = weightsPerLayer + kvPerLayer;
+
+    if (mode === 'layer') {
+        const caps = targets.map((t) => Math.max(0, Math.floor(t.freeGB / perLayer)));
+        const counts = targets.map((t, i) => Math.min(caps[i], Math.floor(t.ratio * totalLayers)));
+
+        // Hand out layers left by rounding or by GPUs that hit their cap
+        let remaining = totalLayers - counts.reduce((a, b) => a + b, 0);
+        for (let i = 0; i < counts.length && remaining > 0; i++) {
+            const extra = Math.min(remaining, caps[i] - counts[i]);
+            counts[i] += extra;
+            remaining -= extra;
+        }
+
+        return {
+            layersOnGPU: counts.reduce((a, b) => a + b, 0),
+            layersPerDevice: counts,
+            memoryPerDevice: counts.map((n) => n * perLayer),
+        };
+    }
+
+    // Tensor/row split: the slice on each GPU must fit, so the tightest GPU decides
+    const sliceCost = (i: number) => {
+        const r = targets[i].ratio;
+        if (mode === 'row') return r * weightsPerLayer + (i === 0 ? kvPerLayer : 0);
+        return r * perLayer;
+    };
+
+    let fit = totalLayers;
+    targets.forEach((t, i) => {
+        const cost = sliceCost(i);
+        if (cost > 0) fit = Math.min(fit, Math.floor(Math.max(0, t.freeGB) / cost));
+    });
+
+    return {
+        layersOnGPU: fit,
+        layersPerDevice: targets.map(() => fit),
+        memoryPerDevice: targets.map((_, i) => fit * sliceCost(i)),
+    };
+}
+
+/**
+ * Time each GPU spends per token, in seconds per unit of work (GB of weights
+ * for decode, TFLOP for prefill) held on GPU. A pipeline (layer split) runs
+ * its stages one after another; tensor/row split waits for the slowest slice
+ * on every layer.
+ */
+export function estimateSplitTimes(
+    mode: GPUSplitMode,
+    placement: LayerPlacement,
+    targets: SplitTarget[],
+    rate: (target: SplitTarget) => number = (t) => t.bandwidth,
+): { deviceTimes: number[]; totalTime: number } {
+    if (placement.layersOnGPU === 0) {
+        return { deviceTimes: targets.map(() => 0), totalTime: 0 };
+    }
+
+    const deviceTimes = targets.map((t, i) => {
+        const share = mode === 'layer'
+            ? placement.layersPerDevice[i] / placement.layersOnGPU
+            : t.ratio;
+        return rate(t) > 0 ? share / rate(t) : 0;
+    });
+
+    const totalTime = mode === 'layer'
+        ? deviceTimes.reduce((a, b) => a + b, 0)
+        : Math.max(...deviceTimes);
+
+    return { deviceTimes, totalTime };
+}
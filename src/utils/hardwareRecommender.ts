@@ -0,0 +1,73 @@
+import type { ModelConfig, HardwareConfig, GPUInfo, GPUSplitMode, QuantizationType, CalculationOptions, RigRecommendation } from '../types';
+import { calculateCompatibility, getBitsPerWeight, DEFAULT_RUNTIME } from './calculationEngine';
+import { getQuantizationFormat, isFormatSupportedOnGPU } from '../data/quantizations';
+import { getRuntimeProfile } from '../data/runtimeProfiles';
+
+// ============================================================================
+// Hardware recommender: rigs that run a model at a target speed
+// ============================================================================
+
+const GPU_COUNTS = [1, 2, 4, 8];
+
+export interface RigSearch {
+    quantization: QuantizationType;
+    contextLength: number;
+    minTokensPerSec: number;
+    splitMode: GPUSplitMode; // used for multi-GPU candidates
+    systemRAM: number; // GB, for discrete-GPU rigs
+    options?: CalculationOptions;
+}
+
+function buildRig(gpu: GPUInfo, count: number, search: RigSearch): HardwareConfig {
+    const isApple = gpu.vendor === 'apple';
+    return {
+        gpus: Array.from({ length: count }, () => ({ gpu })),
+        splitMode: search.splitMode,
+        systemRAM: isApple ? gpu.memorySize : search.systemRAM,
+        reservedRAMGB: 0, // a rig to buy has nothing else running yet
+        isAppleSilicon: isApple,
+    };
+}
+
+/**
+ * Try every GPU the runtime and quantization support, alone and as 2/4/8 of
+ * the same card (Macs only as a single chip), and keep the smallest count of
+ * each that runs the model fully on GPU at the target speed. Sorted by GPU
+ * count, then total memory, then speed — the leanest rig first.
+ */
+export function recommendHardware(model: ModelConfig, gpus: GPUInfo[], search: RigSearch): RigRecommendation[] {
+    const options = search.options ?? {};
+    const runtime = getRuntimeProfile(options.runtime ?? DEFAULT_RUNTIME);
+    const format = getQuantizationFormat(search.quantization);
+    // Weights alone set a floor on memory, which skips most hopeless candidates cheaply
+    const weightsGB = (model.params * getBitsPerWeight(search.quantization, options.quantParams)) / 8;
+
+    const rigs: RigRecommendation[] = [];
+    for (const gpu of gpus) {
+        if (!runtime.vendors.includes(gpu.vendor) || !isFormatSupportedOnGPU(format, gpu)) continue;
+
+        const counts = gpu.vendor === 'apple' ? [1] : GPU_COUNTS;
+        for (const count of counts) {
+            if (gpu.memorySize * count < weightsGB) continue;
+
+            const hardware = buildRig(gpu, count, search);
+            const result = calculateCompatibility(model, hardware, search.quantization, search.contextLength, options);
+            if (result.verdict !== 'full_gpu' || result.estimatedTokensPerSec < search.minTokensPerSec) continue;
+
+            rigs.push({
+                name: count > 1 ? `${count}× ${gpu.name}` : gpu.name,
+                hardware,
+                gpuCount: count,
+                totalMemoryGB: gpu.memorySize * count,
+                requiredGB: result.totalRequiredGB,
+                headroomGB: Math.round((result.availableVRAM - result.totalRequiredGB) * 10) / 10,
+                tokensPerSec: result.estimatedTokensPerSec,
+            });
+            break;
+        }
+    }
+
+    return rigs.sort((a, b) =>
+        a.gpuCount - b.gpuCount || a.totalMemoryGB - b.totalMemoryGB || b.tokensPerSec - a.tokensPerSec
+    );
+}
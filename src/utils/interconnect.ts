@@ -0,0 +1,174 @@
+import type { GPUDevice, GPUSplitMode, PCIeGen } from '../types';
+
+// ============================================================================
+// PCIe / NVLink: activations and weights copied between devices
+// ============================================================================
+
+export const DEFAULT_PCIE_GEN: PCIeGen = 4;
+export const DEFAULT_PCIE_LANES = 16;
+
+// Slot options offered per GPU, fastest first
+export const PCIE_LINK_OPTIONS: { gen: PCIeGen; lanes: number }[] = [5, 4, 3].flatMap((gen) =>
+    [16, 8, 4, 1].map((lanes) => ({ gen: gen as PCIeGen, lanes }))
+);
+
+const PCIE_LANE_BANDWIDTH: Record<PCIeGen, number> = { 3: 0.985, 4: 1.969, 5: 3.938 }; // GB/s per lane and direction
+const PCIE_EFFICIENCY = 0.8; // share of the raw rate DMA copies reach
+const PCIE_LATENCY_SEC = 10e-6; // one small copy, launch and sync included
+const NVLINK_BANDWIDTH = 100; // GB/s per direction; bridges range from ~56 (RTX 3090) to 450 (H100 SXM)
+const NVLINK_LATENCY_SEC = 3e-6;
+const ACTIVATION_BYTES = 4; // hidden states are copied in FP32
+const ALL_REDUCE_BYTES = 2; // tensor-parallel partial sums are reduced in FP16
+const ALL_REDUCES_PER_LAYER = 2; // after attention and after the FFN
+const STREAMING_MIN_BATCH = 32; // llama.cpp moves offloaded matmuls to the GPU from this batch size
+const LINK_BOUND_SHARE = 0.1; // share of the token or prompt time that flags a link
+const NARROW_LINK_LANES = 4;
+
+export interface LinkTrafficInputs {
+    devices: GPUDevice[]; // GPUs the runtime drives, main GPU first
+    splitMode: GPUSplitMode;
+    nvlink: boolean;
+    layersPerDevice: number[];
+    layersOnGPU: number;
+    outputOnGPU: boolean;
+    hostRoundTrips: number; // GPU → CPU → GPU trips per token (MoE experts left in RAM)
+    hiddenSize: number;
+    vocabSize: number;
+    streamedWeightsGB: number; // weights in RAM the runtime copies to the GPU for prompt batches
+    ubatchSize: number;
+    promptTokens: number;
+}
+
+export interface LinkTraffic {
+    decodeSec: number; // per generated token
+    prefillSecPerToken: number; // activation copies per prompt token
+    streamSecPerToken: number | null; // weight copies per prompt token, null when the runtime doesn't stream
+    decodeSecPerDevice: number[];
+    prefillSecPerDevice: number[];
+}
+
+interface Link {
+    bandwidth: number; // GB/s
+    latency: number; // seconds
+}
+
+/**
+ * Effective host ↔ GPU bandwidth of the slot, GB/s
+ */
+export function getPCIeBandwidth(device: GPUDevice): number {
+    const gen = device.pcieGen ?? DEFAULT_PCIE_GEN;
+    return PCIE_LANE_BANDWIDTH[gen] * (device.pcieLanes ?? DEFAULT_PCIE_LANES) * PCIE_EFFICIENCY;
+}
+
+export function describeLink(device: Pick<GPUDevice, 'pcieGen' | 'pcieLanes'>): string {
+    return `PCIe ${device.pcieGen ?? DEFAULT_PCIE_GEN}.0 x${device.pcieLanes ?? DEFAULT_PCIE_LANES}`;
+}
+
+function hostLink(device: GPUDevice): Link {
+    return { bandwidth: getPCIeBandwidth(device), latency: PCIE_LATENCY_SEC };
+}
+
+/**
+ * GPU ↔ GPU link. Without NVLink, consumer cards have no peer-to-peer
+ * access, so copies are staged through host memory: two hops over the
+ * narrower slot.
+ */
+function peerLink(a: GPUDevice, b: GPUDevice, nvlink: boolean): Link {
+    if (nvlink) return { bandwidth: NVLINK_BANDWIDTH, latency: NVLINK_LATENCY_SEC };
+    return { bandwidth: Math.min(getPCIeBandwidth(a), getPCIeBandwidth(b)), latency: 2 * PCIE_LATENCY_SEC };
+}
+
+function copySec(bytes: number, link: Link): number {
+    return link.latency + bytes / (link.bandwidth * 1e9);
+}
+
+function bytesSec(bytes: number, link: Link): number {
+    return bytes / (link.bandwidth * 1e9);
+}
+
+/**
+ * Time spent on copies for one generated token and per prompt token. Decode
+ * copies are tiny, so latency dominates; prefill batches hundreds of tokens
+ * per copy, so only bytes count. Copies are charged to the GPU whose slot
+ * carries them (the narrower one between two GPUs).
+ */
+export function estimateLinkTraffic(inputs: LinkTrafficInputs): LinkTraffic {
+    const { devices, splitMode, nvlink, layersPerDevice, layersOnGPU, outputOnGPU, hiddenSize } = inputs;
+    const decodeSecPerDevice = devices.map(() => 0);
+    const prefillSecPerDevice = devices.map(() => 0);
+    if (devices.length === 0 || layersOnGPU === 0) {
+        return { decodeSec: 0, prefillSecPerToken: 0, streamSecPerToken: null, decodeSecPerDevice, prefillSecPerDevice };
+    }
+
+    const activationBytes = hiddenSize * ACTIVATION_BYTES;
+    const narrower = (a: number, b: number) => (getPCIeBandwidth(devices[b]) < getPCIeBandwidth(devices[a]) ? b : a);
+
+    // A pipeline only involves GPUs holding layers; tensor/row split uses all of them
+    const active = splitMode === 'layer'
+        ? devices.map((_, i) => i).filter((i) => layersPerDevice[i] > 0)
+        : devices.map((_, i) => i);
+    const first = active[0];
+    const last = splitMode === 'layer' ? active[active.length - 1] : 0;
+
+    // In: the token embedding or the output of the CPU layers
+    decodeSecPerDevice[first] += copySec(activationBytes, hostLink(devices[first]));
+    prefillSecPerDevice[first] += bytesSec(activationBytes, hostLink(devices[first]));
+
+    // Out: logits to the sampler, or the last hidden state for a head on CPU.
+    // Prefill only returns logits for the last prompt token.
+    const outBytes = outputOnGPU ? inputs.vocabSize * ACTIVATION_BYTES : activationBytes;
+    decodeSecPerDevice[last] += copySec(outBytes, hostLink(devices[last]));
+    if (!outputOnGPU) prefillSecPerDevice[last] += bytesSec(activationBytes, hostLink(devices[last]));
+
+    // MoE layers whose experts run on CPU send their hidden state there and back
+    decodeSecPerDevice[0] += 2 * inputs.hostRoundTrips * copySec(activationBytes, hostLink(devices[0]));
+
+    if (splitMode === 'layer') {
+        // One hand-off between consecutive pipeline stages
+        for (let k = 1; k < active.length; k++) {
+            const [a, b] = [active[k - 1], active[k]];
+            const link = peerLink(devices[a], devices[b], nvlink);
+            const charged = narrower(a, b);
+            decodeSecPerDevice[charged] += copySec(activationBytes, link);
+            prefillSecPerDevice[charged] += bytesSec(activationBytes, link);
+        }
+    } else if (devices.length > 1) {
+        // Ring all-reduce of the partial sums after every sliced block, paced by the slowest slot
+        const n = devices.length;
+        const slowest = devices.reduce((s, _, i) => narrower(s, i), 0);
+        const link = peerLink(devices[slowest], devices[slowest], nvlink);
+        const reduceBytes = ((2 * (n - 1)) / n) * hiddenSize * ALL_REDUCE_BYTES;
+        const reduces = ALL_REDUCES_PER_LAYER * layersOnGPU;
+        decodeSecPerDevice[slowest] += reduces * (2 * (n - 1) * link.latency + bytesSec(reduceBytes, link));
+        prefillSecPerDevice[slowest] += reduces * bytesSec(reduceBytes, link);
+    }
+
+    // Runtimes that stream offloaded weights copy them to the main GPU once
+    // per prompt batch and run those layers there instead of on the CPU
+    const streams = inputs.streamedWeightsGB > 0 && inputs.promptTokens >= STREAMING_MIN_BATCH;
+    const batch = Math.max(1, Math.min(inputs.ubatchSize, inputs.promptTokens));
+    const streamSecPerToken = streams ? inputs.streamedWeightsGB / getPCIeBandwidth(devices[0]) / batch : null;
+    if (streamSecPerToken !== null) prefillSecPerDevice[0] += streamSecPerToken;
+
+    return {
+        decodeSec: decodeSecPerDevice.reduce((a, b) => a + b, 0),
+        prefillSecPerToken: prefillSecPerDevice.reduce((a, b) => a + b, 0) - (streamSecPerToken ?? 0),
+        streamSecPerToken,
+        decodeSecPerDevice,
+        prefillSecPerDevice,
+    };
+}
+
+/**
+ * GPUs on a narrow slot (x4 riser or less) whose link takes a large share of
+ * the time per generated token or per prompt token. Wide slots are left alone:
+ * their cost is latency, which more lanes don't fix.
+ */
+export function findLinkBound(devices: GPUDevice[], traffic: LinkTraffic, decodeSec: number, prefillSecPerToken: number): boolean[] {
+    return devices.map((d, i) => {
+        if ((d.pcieLanes ?? DEFAULT_PCIE_LANES) > NARROW_LINK_LANES) return false;
+        const decodeShare = decodeSec > 0 ? (traffic.decodeSecPerDevice[i] ?? 0) / decodeSec : 0;
+        const prefillShare = prefillSecPerToken > 0 ? (traffic.prefillSecPerDevice[i] ?? 0) / prefillSecPerToken : 0;
+        return Math.max(decodeShare, prefillShare) >= LINK_BOUND_SHARE;
+    });
+}
@@ -0,0 +1,52 @@
+import type { ModelConfig } from '../types';
+
+// ============================================================================
+// MoE tensor groups and routed-expert placement
+// ============================================================================
+
+export interface MoETensorGroups {
+    attention: number; // billions — attention, embeddings, norms and routers
+    sharedExperts: number; // billions — shared experts + dense FFN layers
+    routedExperts: number; // billions — numActiveExperts of numExperts read per token
+    moeLayers: number;
+}
+
+/**
+ * Split an MoE model's parameters into tensor groups. Experts are sized from
+ * the FFN shape (gate, up and down projections); whatever is left of the
+ * model's total is attention and embeddings.
+ */
+export function splitMoEParams(model: ModelConfig): MoETensorGroups {
+    const denseLayers = model.denseLayers ?? 0;
+    const moeLayers = model.layers - denseLayers;
+    const expertParams = (3 * model.hiddenSize * (model.expertIntermediateSize ?? model.intermediateSize)) / 1e9;
+    const denseFFNParams = (denseLayers * 3 * model.hiddenSize * model.intermediateSize) / 1e9;
+
+    const routedExperts = Math.min(moeLayers * (model.numExperts ?? 1) * expertParams, model.params);
+    const sharedExperts = Math.min(
+        moeLayers * (model.numSharedExperts ?? 0) * expertParams + denseFFNParams,
+        model.params - routedExperts
+    );
+
+    return {
+        attention: model.params - routedExperts - sharedExperts,
+        sharedExperts,
+        routedExperts,
+        moeLayers,
+    };
+}
+
+/**
+ * Keep the routed experts of as many MoE layers as fit in each GPU's spare
+ * VRAM, filling GPUs in order; the rest stay in system RAM, like llama.cpp
+ * `--n-cpu-moe`. Returns the expert layers placed on each GPU.
+ */
+export function placeRoutedExperts(moeLayers: number, expertLayerGB: number, spareGB: number[]): number[] {
+    let remaining = moeLayers;
+    return spareGB.map((spare) => {
+        const fit = expertLayerGB > 0 ? Math.floor(Math.max(0, spare) / expertLayerGB) : remaining;
+        const placed = Math.min(remaining, fit);
+        remaining -= placed;
+        return placed;
+    });
+}
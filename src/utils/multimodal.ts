@@ -0,0 +1,38 @@
+import type { ModelConfig, MediaConfig, EncoderModality } from '../types';
+
+// ============================================================================
+// Vision and audio encoders
+// ============================================================================
+
+const ENCODER_BYTES_PER_PARAM = 2; // encoders/projectors ship as F16 (mmproj) whatever the LLM quant
+
+/**
+ * Weight memory (GB) of every encoder the model has
+ */
+export function calcEncoderMemory(model: ModelConfig): number {
+    const params = (model.encoders ?? []).reduce((sum, e) => sum + e.params, 0);
+    return params * ENCODER_BYTES_PER_PARAM;
+}
+
+/**
+ * Language-model tokens the images and audio clips of one request take up.
+ * Media the model has no encoder for is ignored.
+ */
+export function countMediaTokens(model: ModelConfig, media?: MediaConfig): number {
+    if (!media) return 0;
+    return (model.encoders ?? []).reduce((sum, e) => {
+        const items = e.modality === 'vision' ? media.images : media.audioClips;
+        return sum + items * e.tokensPerItem;
+    }, 0);
+}
+
+/**
+ * Modalities that add tokens to a request, in encoder order
+ */
+export function getMediaModalities(model: ModelConfig, media?: MediaConfig): EncoderModality[] {
+    if (!media) return [];
+    const used = (model.encoders ?? [])
+        .filter((e) => (e.modality === 'vision' ? media.images : media.audioClips) > 0)
+        .map((e) => e.modality);
+    return [...new Set(used)];
+}
@@ -0,0 +1,89 @@
+import type { ModelConfig, HardwareConfig, CalculationOptions, MoEOffloadMode, OptimizedConfig, QuantizationParams } from '../types';
+import { calculateCompatibility, estimateQualityLoss, getUsableQuantizations, DEFAULT_RUNTIME } from './calculationEngine';
+import { getRuntimeProfile } from '../data/runtimeProfiles';
+
+// ============================================================================
+// Best configuration search
+// ============================================================================
+
+const CONTEXT_CANDIDATES = [2048, 4096, 8192, 16384, 32768, 65536, 131072];
+const BPW_CANDIDATES = [2.5, 3, 3.5, 4, 4.5, 5, 6, 8]; // tried for formats with a free rate
+const SPEED_STEP = 1.1; // speeds within the same 10% step count as equal
+
+/** Speed bucket, so configurations a few percent apart don't all make the front */
+function speedStep(tokensPerSec: number): number {
+    return Math.floor(Math.log(Math.max(tokensPerSec, 0.01)) / Math.log(SPEED_STEP));
+}
+
+/**
+ * Whether `a` is at least as good as `b` on quality, speed step and context
+ * and strictly better on one of them
+ */
+function dominates(a: OptimizedConfig, b: OptimizedConfig): boolean {
+    const speedA = speedStep(a.tokensPerSec);
+    const speedB = speedStep(b.tokensPerSec);
+    const noWorse = a.qualityLoss.kld <= b.qualityLoss.kld
+        && speedA >= speedB
+        && a.contextLength >= b.contextLength;
+    const better = a.qualityLoss.kld < b.qualityLoss.kld
+        || speedA > speedB
+        || a.contextLength > b.contextLength;
+    return noWorse && better;
+}
+
+/**
+ * Try every quantization × context length × MoE offload mode the runtime and
+ * GPUs support and keep the Pareto-optimal ones that run on the GPU (fully or
+ * with partial offload), ordered from best quality to most compressed.
+ */
+export function findParetoConfigurations(
+    model: ModelConfig,
+    hardware: HardwareConfig,
+    options: CalculationOptions = {},
+): OptimizedConfig[] {
+    const runtime = getRuntimeProfile(options.runtime ?? DEFAULT_RUNTIME);
+    const contexts = CONTEXT_CANDIDATES.filter((c) => c <= model.maxContextLength);
+    const offloadModes: MoEOffloadMode[] = model.isMoE && runtime.supportsExpertOffload ? ['layers', 'experts'] : ['layers'];
+
+    const candidates: OptimizedConfig[] = [];
+    for (const format of getUsableQuantizations(hardware, runtime.id)) {
+        const paramSets: QuantizationParams[] = format.bpwRange
+            ? BPW_CANDIDATES.filter((b) => b >= format.bpwRange![0] && b <= format.bpwRange![1]).map((b) => ({ bitsPerWeight: b }))
+            : [{}];
+
+        for (const quantParams of paramSets) {
+            for (const contextLength of contexts) {
+                for (const moeOffload of offloadModes) {
+                    const result = calculateCompatibility(model, hardware, format.id, contextLength, {
+                        ...options,
+                        moeOffload,
+                        quantParams,
+                    });
+                    if (result.verdict !== 'full_gpu' && result.verdict !== 'partial_offload') continue;
+
+                    candidates.push({
+                        quantization: format.id,
+                        quantParams,
+                        contextLength,
+                        moeOffload,
+                        verdict: result.verdict,
+                        tokensPerSec: result.estimatedTokensPerSec,
+                        totalRequiredGB: result.totalRequiredGB,
+                        qualityLoss: estimateQualityLoss(format.id, quantParams),
+                    });
+                }
+            }
+        }
+    }
+
+    // Keep the first of any ties so equivalent formats (FP16/BF16) appear once
+    const front = candidates.filter((c, i) => !candidates.some((other, j) => {
+        if (dominates(other, c)) return true;
+        const tie = other.qualityLoss.kld === c.qualityLoss.kld
+            && speedStep(other.tokensPerSec) === speedStep(c.tokensPerSec)
+            && other.contextLength === c.contextLength;
+        return tie && j < i;
+    }));
+
+    return front.sort((a, b) => a.qualityLoss.kld - b.qualityLoss.kld || b.contextLength - a.contextLength);
+}
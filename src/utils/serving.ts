@@ -0,0 +1,56 @@
+import type { ServingConfig, ServingResult } from '../types';
+
+// ============================================================================
+// Batched decoding for multi-user serving
+// ============================================================================
+
+const DECODE_MFU = 0.5; // share of peak FLOPs batched decode kernels reach
+
+export interface ServingInputs {
+    config: ServingConfig;
+    tokensPerSequence: number;
+    kvPerSequenceGB: number;
+    singleStreamTokensPerSec: number; // batch-1 decode speed of this setup
+    activeParams: number; // billions, read and multiplied per token
+    bandwidth: number; // GB/s of the devices holding the KV cache
+    computeTFLOPs: number; // peak FP16 throughput of the GPUs
+    freeVRAMForKV: number; // GB left after weights and runtime overhead
+}
+
+/**
+ * Each decode step reads the weights once for the whole batch plus every
+ * sequence's KV cache, and does 2 × active_params FLOPs per sequence.
+ * Small batches are memory-bound; past the ridge point compute takes over.
+ */
+export function estimateServing(inputs: ServingInputs): ServingResult {
+    const { config, tokensPerSequence, kvPerSequenceGB, singleStreamTokensPerSec, activeParams, bandwidth } = inputs;
+
+    const activeSequences = Math.max(1, Math.min(config.concurrentSequences, config.maxBatchSize));
+    const queuedSequences = Math.max(0, config.concurrentSequences - activeSequences);
+
+    // On average a sequence is halfway through its output while decoding
+    const avgTokensInKV = Math.min(tokensPerSequence, config.avgPromptTokens + config.avgOutputTokens / 2);
+    const avgKVReadGB = tokensPerSequence > 0 ? (kvPerSequenceGB * avgTokensInKV) / tokensPerSequence : 0;
+    const weightTime = 1 / singleStreamTokensPerSec;
+    const memoryTime = weightTime + (activeSequences * avgKVReadGB) / Math.max(bandwidth, 1);
+
+    const effectiveFLOPs = inputs.computeTFLOPs * 1e12 * DECODE_MFU;
+    const computeTime = (activeSequences * 2 * activeParams * 1e9) / effectiveFLOPs;
+
+    const stepTime = Math.max(memoryTime, computeTime);
+    const maxConcurrency = kvPerSequenceGB > 0
+        ? Math.max(0, Math.floor(inputs.freeVRAMForKV / kvPerSequenceGB))
+        : 0;
+
+    return {
+        activeSequences,
+        queuedSequences,
+        tokensPerSequence,
+        kvCachePerSequenceGB: Math.round(kvPerSequenceGB * 1000) / 1000,
+        kvCacheTotalGB: Math.round(kvPerSequenceGB * activeSequences * 100) / 100,
+        perUserTokensPerSec: Math.round((1 / stepTime) * 10) / 10,
+        aggregateTokensPerSec: Math.round((activeSequences / stepTime) * 10) / 10,
+        boundBy: computeTime > memoryTime ? 'compute' : 'memory',
+        maxConcurrency,
+    };
+}
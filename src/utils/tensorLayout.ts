@@ -0,0 +1,60 @@
+import type { ModelConfig } from '../types';
+
+// ============================================================================
+// Per-tensor weights: repeating blocks vs token embedding and output head
+// ============================================================================
+
+const MAX_NON_BLOCK_SHARE = 0.9; // guards against vocab/hidden sizes that don't match params
+
+export interface TensorLayout {
+    embedding: number; // billions — token embedding matrix
+    outputHead: number; // billions — lm_head, 0 when tied to the embedding
+    blocks: number; // billions — all repeating transformer blocks
+}
+
+/**
+ * Attention head width; Gemma and others set it apart from hidden / heads
+ */
+export function getHeadDim(model: ModelConfig): number {
+    return model.headDim ?? model.hiddenSize / model.numAttentionHeads;
+}
+
+/**
+ * Split a model's parameters into the token embedding, the output head and
+ * the repeating blocks. Without a known vocabulary everything counts as blocks.
+ * Like transformers, the head is tied unless the config says otherwise.
+ */
+export function splitTensorParams(model: ModelConfig): TensorLayout {
+    const tied = model.tieWordEmbeddings ?? true;
+    const matrix = ((model.vocabSize ?? 0) * model.hiddenSize) / 1e9;
+    const matrices = tied ? 1 : 2;
+    const nonBlock = Math.min(matrix * matrices, model.params * MAX_NON_BLOCK_SHARE);
+    const embedding = nonBlock / matrices;
+
+    return {
+        embedding,
+        outputHead: tied ? 0 : embedding,
+        blocks: model.params - nonBlock,
+    };
+}
+
+/**
+ * Parameters read per generated token on GPU and on CPU: the active share of
+ * each block where it sits, plus the output head. The embedding is a lookup
+ * of a single row and costs nothing; a tied head reads the embedding matrix.
+ */
+export function splitReadParams(
+    model: ModelConfig,
+    gpuLayerShare: number,
+    outputOnGPU: boolean,
+): { gpuParams: number; cpuParams: number } {
+    const tensors = splitTensorParams(model);
+    const activeParams = model.isMoE && model.activeParams ? model.activeParams : model.params;
+    const head = tensors.outputHead || tensors.embedding;
+    const blockParams = Math.max(0, activeParams - tensors.embedding - tensors.outputHead);
+
+    return {
+        gpuParams: blockParams * gpuLayerShare + (outputOnGPU ? head : 0),
+        cpuParams: blockParams * (1 - gpuLayerShare) + (outputOnGPU ? 0 : head),
+    };
+}
@@ -0,0 +1,127 @@
+import type { ModelConfig, TrainingConfig, TrainingOptimizer, LoRATargetModule, TrainingResult } from '../types';
+import { getHeadDim } from './tensorLayout';
+
+// ============================================================================
+// Fine-tuning memory: full, LoRA and QLoRA
+// ============================================================================
+
+const BF16_BYTES = 2; // weights, gradients and activations are kept in bf16
+const QLORA_BITS_PER_WEIGHT = 4.127; // NF4 with double-quantized scales
+const LOGIT_BYTES = 4; // logits are upcast to fp32 for the loss
+const TRAINING_OVERHEAD_GB = 1.0; // CUDA context + allocator fragmentation, per GPU
+
+// Optimizer state per trainable parameter, including the fp32 master copy
+const OPTIMIZER_BYTES: Record<TrainingOptimizer, number> = {
+    adamw: 12, // master + m + v in fp32
+    adamw_8bit: 6, // fp32 master + 8-bit m and v
+    adafactor: 4, // fp32 master; factored second moment is negligible
+};
+
+export const TRAINING_OPTIMIZER_OPTIONS: { value: TrainingOptimizer; label: string }[] = [
+    { value: 'adamw', label: 'AdamW' },
+    { value: 'adamw_8bit', label: '8-bit Adam' },
+    { value: 'adafactor', label: 'Adafactor' },
+];
+
+export const LORA_TARGET_MODULES: LoRATargetModule[] = ['q_proj', 'k_proj', 'v_proj', 'o_proj', 'gate_proj', 'up_proj', 'down_proj'];
+
+/**
+ * LoRA adapter parameters (billions): rank × (in + out) for every targeted
+ * projection. FFN adapters are added to every expert of an MoE layer.
+ */
+function countLoRAParams(model: ModelConfig, rank: number, targets: LoRATargetModule[]): number {
+    const h = model.hiddenSize;
+    const headDim = getHeadDim(model);
+    const qDim = model.numAttentionHeads * headDim;
+    const kvDim = model.numKVHeads * headDim;
+    const ffnWidth = model.isMoE ? model.expertIntermediateSize ?? model.intermediateSize : model.intermediateSize;
+    const ffnCopies = model.isMoE ? (model.numExperts ?? 1) + (model.numSharedExperts ?? 0) : 1;
+
+    const shapes: Record<LoRATargetModule, [number, number, number]> = {
+        // [in, out, copies per layer]
+        q_proj: [h, qDim, 1],
+        k_proj: [h, kvDim, 1],
+        v_proj: [h, kvDim, 1],
+        o_proj: [qDim, h, 1],
+        gate_proj: [h, ffnWidth, ffnCopies],
+        up_proj: [h, ffnWidth, ffnCopies],
+        down_proj: [ffnWidth, h, ffnCopies],
+    };
+
+    const perLayer = targets.reduce((sum, t) => {
+        const [inDim, outDim, copies] = shapes[t];
+        return sum + rank * (inDim + outDim) * copies;
+    }, 0);
+    return (perLayer * model.layers) / 1e9;
+}
+
+/**
+ * Activations saved for the backward pass, per token per layer: the attention
+ * block keeps its input, Q/K/V, output and norms (flash attention, so no
+ * seq² scores); the gated FFN keeps its input, gate, up and activation.
+ */
+function activationBytesPerTokenLayer(model: ModelConfig): number {
+    const h = model.hiddenSize;
+    const kvDim = model.numKVHeads * getHeadDim(model);
+    const activeFFN = model.isMoE
+        ? ((model.numActiveExperts ?? 1) + (model.numSharedExperts ?? 0)) * (model.expertIntermediateSize ?? model.intermediateSize)
+        : model.intermediateSize;
+    return BF16_BYTES * (7 * h + 2 * kvDim + 3 * activeFFN);
+}
+
+/**
+ * Peak training memory: weights, gradients and optimizer states for the
+ * trainable parameters, saved activations for one micro-batch and the logits.
+ * Gradient checkpointing keeps only each layer's input and recomputes one
+ * layer at a time. With several GPUs, states are assumed sharded (FSDP/ZeRO-3)
+ * while every GPU holds the activations of its own micro-batch, so the
+ * per-GPU share must fit the smallest card.
+ */
+export function estimateTraining(
+    model: ModelConfig,
+    config: TrainingConfig,
+    deviceVRAM: number[],
+): TrainingResult {
+    const isFull = config.method === 'full';
+    const trainableParams = isFull ? model.params : countLoRAParams(model, config.loraRank, config.loraTargets);
+    const gpuCount = Math.max(1, deviceVRAM.length);
+
+    const baseBytesPerParam = config.method === 'qlora' ? QLORA_BITS_PER_WEIGHT / 8 : BF16_BYTES;
+    const weightsGB = model.params * baseBytesPerParam;
+    const adapterGB = isFull ? 0 : trainableParams * BF16_BYTES;
+    const gradientsGB = trainableParams * BF16_BYTES;
+    const optimizerGB = trainableParams * OPTIMIZER_BYTES[config.optimizer];
+
+    const tokens = config.batchSize * config.sequenceLength;
+    const perLayer = activationBytesPerTokenLayer(model);
+    const layerActivations = config.gradientCheckpointing
+        ? model.layers * BF16_BYTES * model.hiddenSize + perLayer
+        : model.layers * perLayer;
+    const logits = (model.vocabSize ?? 32000) * LOGIT_BYTES;
+    const activationsPerGPU = (tokens * (layerActivations + logits)) / 1e9;
+    const activationsGB = activationsPerGPU * gpuCount;
+
+    const shardedGB = weightsGB + adapterGB + gradientsGB + optimizerGB;
+    const overheadGB = TRAINING_OVERHEAD_GB * gpuCount;
+    const totalGB = shardedGB + activationsGB + overheadGB;
+    const perGPUGB = shardedGB / gpuCount + activationsPerGPU + TRAINING_OVERHEAD_GB;
+    const availableVRAM = deviceVRAM.reduce((sum, gb) => sum + gb, 0);
+    const smallestGPUGB = deviceVRAM.length > 0 ? Math.min(...deviceVRAM) : 0;
+    const round = (gb: number) => Math.round(gb * 100) / 100;
+
+    return {
+        trainableParams: Math.round(trainableParams * 1e4) / 1e4,
+        weightsGB: round(weightsGB),
+        adapterGB: round(adapterGB),
+        gradientsGB: round(gradientsGB),
+        optimizerGB: round(optimizerGB),
+        activationsGB: round(activationsGB),
+        overheadGB: round(overheadGB),
+        totalGB: round(totalGB),
+        availableVRAM: round(availableVRAM),
+        gpuCount,
+        perGPUGB: round(perGPUGB),
+        smallestGPUGB: round(smallestGPUGB),
+        fits: perGPUGB <= smallestGPUGB,
+    };
+}
@@ -0,0 +1,37 @@
+// ============================================================================
+// Apple Silicon: how much unified memory macOS lets the GPU wire
+// ============================================================================
+
+const SMALL_MAC_MAX_GB = 36; // below this macOS keeps a third for itself
+const SMALL_MAC_GPU_SHARE = 2 / 3;
+const LARGE_MAC_GPU_SHARE = 0.75;
+const MIN_SYSTEM_GB = 4; // macOS becomes unstable when the GPU may wire more than this leaves
+
+/**
+ * macOS default GPU working-set limit (recommendedMaxWorkingSetSize), GB
+ */
+export function getDefaultGPULimitGB(totalGB: number): number {
+    return totalGB * (totalGB < SMALL_MAC_MAX_GB ? SMALL_MAC_GPU_SHARE : LARGE_MAC_GPU_SHARE);
+}
+
+/**
+ * GPU limit in effect: the user's `iogpu.wired_limit_mb` when set, else the default
+ */
+export function getGPULimitGB(totalGB: number, overrideGB?: number): number {
+    if (!overrideGB) return getDefaultGPULimitGB(totalGB);
+    return Math.min(overrideGB, totalGB);
+}
+
+/**
+ * Highest limit that still leaves macOS enough memory to run
+ */
+export function getMaxGPULimitGB(totalGB: number): number {
+    return Math.max(getDefaultGPULimitGB(totalGB), totalGB - MIN_SYSTEM_GB);
+}
+
+/**
+ * Terminal command that sets the limit until the next reboot
+ */
+export function formatWiredLimitCommand(limitGB: number): string {
+    return `sudo sysctl iogpu.wired_limit_mb=${Math.round(limitGB * 1024)}`;
+}